@@ -0,0 +1,112 @@
+// @vitest-environment happy-dom
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  createLiteralMarkdownEditor,
+  type LiteralMarkdownEditorHandle,
+  type LiteralMarkdownRenderer,
+} from "./literal-markdown-editor.js";
+
+const literalHtml = (source: string): string =>
+  `<p data-src-start="0" data-src-end="${source.length}">${source}</p>`;
+
+const delay = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+let editor: LiteralMarkdownEditorHandle | null = null;
+
+function setup(
+  renderLiteral: LiteralMarkdownRenderer,
+  onRenderError?: (error: unknown, source: string) => void,
+): HTMLElement {
+  const host = document.createElement("div");
+  const rendered = document.createElement("div");
+  const source = document.createElement("textarea");
+  const sourceView = document.createElement("div");
+  const sourceCaret = document.createElement("div");
+  const sourceSelection = document.createElement("div");
+  host.append(rendered, sourceView, source, sourceCaret, sourceSelection);
+  document.body.append(host);
+  editor = createLiteralMarkdownEditor({
+    elements: { host, rendered, source, sourceView, sourceCaret, sourceSelection },
+    renderLiteral,
+    initialSource: "first",
+    syntaxHighlight: false,
+    ...(onRenderError ? { onRenderError } : {}),
+  });
+  return rendered;
+}
+
+afterEach(() => {
+  editor?.destroy();
+  editor = null;
+  document.body.innerHTML = "";
+});
+
+describe("createLiteralMarkdownEditor with an async renderer", () => {
+  it("patches the rendered view before rendered() resolves", async () => {
+    const rendered = setup(async (source) => {
+      await delay(5);
+      return literalHtml(source);
+    });
+    await editor!.rendered();
+    expect(rendered.textContent).toBe("first");
+
+    editor!.setSource("second");
+    expect(rendered.textContent).toBe("first");
+    await editor!.rendered();
+    expect(rendered.textContent).toBe("second");
+    expect(editor!.refreshInvariant().ok).toBe(true);
+  });
+
+  it("drops a result that arrives after a newer render", async () => {
+    const delays: Record<string, number> = { first: 0, slow: 20, fast: 1 };
+    const calls: string[] = [];
+    const rendered = setup(async (source) => {
+      calls.push(source);
+      await delay(delays[source] ?? 0);
+      return literalHtml(source);
+    });
+    await editor!.rendered();
+
+    editor!.setSource("slow");
+    editor!.setSource("fast");
+    await editor!.rendered();
+    expect(rendered.textContent).toBe("fast");
+
+    // The stale "slow" result lands later and is ignored
+    await delay(30);
+    expect(calls).toEqual(["first", "slow", "fast"]);
+    expect(rendered.textContent).toBe("fast");
+  });
+
+  it("reports a failed render through onRenderError", async () => {
+    const errors: Array<[unknown, string]> = [];
+    const failure = new Error("render failed");
+    const rendered = setup(
+      async (source) => {
+        await delay(1);
+        if (source === "broken") throw failure;
+        return literalHtml(source);
+      },
+      (error, source) => errors.push([error, source]),
+    );
+    await editor!.rendered();
+
+    editor!.setSource("broken");
+    await editor!.rendered();
+    expect(errors).toEqual([[failure, "broken"]]);
+    expect(rendered.textContent).toBe("first");
+  });
+
+  it("rejects rendered() without onRenderError", async () => {
+    setup(async (source) => {
+      await delay(1);
+      if (source === "broken") throw new Error("render failed");
+      return literalHtml(source);
+    });
+    await editor!.rendered();
+
+    editor!.setSource("broken");
+    await expect(editor!.rendered()).rejects.toThrow("render failed");
+  });
+});
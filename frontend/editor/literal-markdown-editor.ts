@@ -7,7 +7,11 @@
  * overlays, and IME anchor correction.
  */
 
-import { LiteralEditor, type PatchStats } from "./literal-editor.js";
+import {
+  LiteralEditor,
+  type PatchStats,
+  patchTopLevelChildren,
+} from "./literal-editor.js";
 import {
   getLoadedHighlighter as getDefaultLoadedHighlighter,
   loadHighlighter as loadDefaultHighlighter,
@@ -21,10 +25,16 @@ export interface LiteralMarkdownRenderOptions {
   imagePreview: boolean;
 }
 
+/**
+ * Renders the literal HTML of `source`. An async renderer (e.g.
+ * `createMarkdownWorker().toHtmlLiteral`) keeps typing responsive in large
+ * documents: the rendered view is patched when the HTML arrives, and
+ * results for a source that has changed since are dropped.
+ */
 export type LiteralMarkdownRenderer = (
   source: string,
   options: LiteralMarkdownRenderOptions,
-) => string;
+) => string | Promise<string>;
 
 export type LiteralMarkdownHighlightTag = number | string;
 
@@ -163,17 +173,24 @@ export interface LiteralMarkdownEditorOptions {
   onPatchStats?: (stats: PatchStats) => void;
   onInvariant?: (state: LiteralMarkdownInvariantState) => void;
   onCursor?: (state: LiteralMarkdownCursorState) => void;
+  onRenderError?: (error: unknown, source: string) => void;
 }
 
 export interface LiteralMarkdownEditorHandle {
   readonly source: string;
   readonly mode: LiteralMarkdownMode;
   readonly imagePreview: boolean;
+  /**
+   * Replace the source. With an async renderer the rendered view is
+   * patched later (see `rendered`) and the returned stats are empty.
+   */
   setSource(source: string): PatchStats;
   setMode(mode: LiteralMarkdownMode): void;
   setImagePreview(enabled: boolean): void;
   syncLayout(keepCaretVisible?: boolean): void;
   refreshInvariant(): LiteralMarkdownInvariantState;
+  /** Resolves once the rendered view shows the current source. */
+  rendered(): Promise<void>;
   destroy(): void;
 }
 
@@ -215,11 +232,35 @@ export function createLiteralMarkdownEditor(
     { lang: string; source: string }
   >();
 
-  const renderLiteral = (src: string): string =>
-    options.renderLiteral(src, {
+  // HTML shown in the rendered view and the source it was rendered from.
+  // An async renderer leaves both unchanged until its result arrives, so
+  // the synchronous patch in between is a no-op.
+  let renderedHtml = "";
+  let renderedSource: string | null = null;
+  let renderToken = 0;
+  let renderIdle: Promise<void> = Promise.resolve();
+
+  const renderLiteral = (src: string): string => {
+    const result = options.renderLiteral(src, {
       positions: true,
       imagePreview: imagePreviewOn,
     });
+    const token = ++renderToken;
+    if (typeof result === "string") {
+      renderedHtml = result;
+      renderedSource = src;
+    } else {
+      renderIdle = result.then(
+        (html) => applyAsyncRender(token, src, html),
+        (error: unknown) => {
+          if (token !== renderToken) return;
+          if (!options.onRenderError) throw error;
+          options.onRenderError(error, src);
+        },
+      );
+    }
+    return renderedHtml;
+  };
 
   const editor = new LiteralEditor(renderedEl, renderLiteral, initialSource);
   const sourceViewEditor = new LiteralEditor(
@@ -229,9 +270,9 @@ export function createLiteralMarkdownEditor(
   );
   const disposers: Array<() => void> = [];
 
-  function refreshInvariant(src: string): LiteralMarkdownInvariantState {
+  function refreshInvariant(): LiteralMarkdownInvariantState {
     const visible = stripHtml(renderedEl.innerHTML);
-    const expected = stripHtml(renderLiteral(src));
+    const expected = stripHtml(renderedHtml);
     const state = { ok: visible === expected, visible, expected };
     options.onInvariant?.(state);
     if (!state.ok) {
@@ -242,14 +283,38 @@ export function createLiteralMarkdownEditor(
 
   function update(src: string): PatchStats {
     const stats = editor.setSource(src);
-    applyLiteralSyntaxHighlighting();
     renderSourceView(src);
+    if (renderedSource !== src) {
+      // Async render pending: stats and invariant are reported on arrival
+      syncLiteralLayout();
+      return stats;
+    }
+    applyLiteralSyntaxHighlighting();
     syncLiteralLayout();
     options.onPatchStats?.(stats);
-    refreshInvariant(src);
+    refreshInvariant();
     return stats;
   }
 
+  function applyAsyncRender(token: number, src: string, html: string): void {
+    if (destroyed || token !== renderToken) return;
+    renderedHtml = html;
+    renderedSource = src;
+    const stats = patchTopLevelChildren(renderedEl, html);
+    applyLiteralSyntaxHighlighting();
+    syncLiteralLayout();
+    options.onPatchStats?.(stats);
+    refreshInvariant();
+  }
+
+  async function rendered(): Promise<void> {
+    let idle: Promise<void>;
+    do {
+      idle = renderIdle;
+      await idle;
+    } while (idle !== renderIdle);
+  }
+
   function renderSourceView(src: string): void {
     sourceViewEditor.setSource(src);
   }
@@ -647,7 +712,7 @@ export function createLiteralMarkdownEditor(
       applyLiteralSyntaxHighlighting();
       sourceViewEditor.rerender();
       syncLiteralLayout();
-      refreshInvariant(sourceEl.value);
+      refreshInvariant();
     }).catch((error) => {
       pendingCodeHighlighters.delete(lang);
       console.error("Literal code highlighter load error:", error);
@@ -1594,7 +1659,7 @@ export function createLiteralMarkdownEditor(
     applyLiteralSyntaxHighlighting();
     queueLiteralLayoutSync();
     syncSourceCaret();
-    refreshInvariant(sourceEl.value);
+    refreshInvariant();
   }
 
   function setSource(src: string): PatchStats {
@@ -1775,7 +1840,8 @@ export function createLiteralMarkdownEditor(
     setMode,
     setImagePreview,
     syncLayout: queueLiteralLayoutSync,
-    refreshInvariant: () => refreshInvariant(sourceEl.value),
+    refreshInvariant,
+    rendered,
     destroy() {
       destroyed = true;
       for (const dispose of disposers.splice(0).reverse()) {
@@ -7,6 +7,8 @@
 
 // Re-export mdast types
 export type {
+  Nodes,
+  Parents,
   Root,
   RootContent,
   Content,
@@ -45,7 +47,8 @@ export type {
 // =============================================================================
 
 /**
- * Edit information for incremental parsing.
+ * Edit information for incremental parsing. Positions are string indices
+ * (UTF-16 code units), like `String.prototype.slice` takes.
  */
 export interface EditInfo {
   /** Start position of the edit in the old source */
@@ -71,6 +74,349 @@ export interface MarkdownOptions {
    * Enabled by default; set false to keep bare URLs as plain text.
    */
   autolink?: boolean;
+
+  /**
+   * Use the spec-compliant CommonMark inline parser (delimiter stack,
+   * full emphasis flanking rules). Slower than the default single-pass
+   * parser; incremental updates on a document keep the mode it was
+   * created with.
+   */
+  strict?: boolean;
+
+  /**
+   * Parse `$inline$` and `$$display$$` math into `inlineMath` and `math`
+   * nodes (remark-math syntax). Disabled by default, since `$` is common
+   * in plain text.
+   */
+  math?: boolean;
+
+  /**
+   * Parse GitHub alerts (`> [!NOTE]`, `[!TIP]`, `[!IMPORTANT]`,
+   * `[!WARNING]`, `[!CAUTION]`) into blockquotes with `data.alert`.
+   * `toHtml` renders them as `<div class="markdown-alert">` like GitHub.
+   */
+  alerts?: boolean;
+
+  /**
+   * Parse generic directives (remark-directive syntax): `:name[label]{attrs}`
+   * inline, `::name[label]{attrs}` on its own line and `:::name` … `:::`
+   * around blocks, into `textDirective`, `leafDirective` and
+   * `containerDirective` nodes. Render them with `directiveHandlers`.
+   */
+  directives?: boolean;
+}
+
+/**
+ * Output style for `toMarkdown` and `astToMarkdown`. Defaults match
+ * remark-gfm.
+ */
+export interface SerializeStyleOptions {
+  /** Bullet list marker (default "-") */
+  bullet?: "-" | "*" | "+";
+  /**
+   * Emphasis marker (default "*"). Emphasis inside a word always uses
+   * "*", since "_" does not delimit emphasis there.
+   */
+  emphasis?: "*" | "_";
+  /** Strong emphasis marker, written doubled (default "*") */
+  strong?: "*" | "_";
+  /** Code fence (default "```"), lengthened when the code contains a run */
+  fence?: "```" | "~~~";
+  /**
+   * Heading style. Setext applies to depth 1 and 2 only; deeper headings
+   * stay ATX. Each heading keeps its source style when unset.
+   */
+  headingStyle?: "atx" | "setext";
+  /**
+   * Space between a list marker and the item content: one space, the next
+   * tab stop (content at a multiple of 4 columns), or tab stops only in
+   * loose lists (default "one").
+   */
+  listIndent?: "one" | "tab" | "mixed";
+  /**
+   * Paragraph line breaks, like Prettier's `proseWrap`: keep the source
+   * breaks ("preserve", the default), reflow to `printWidth` ("always") or
+   * join each paragraph into one line ("never"). Lines never break inside
+   * code spans, links, images or URLs, and hard breaks are kept.
+   */
+  proseWrap?: "preserve" | "always" | "never";
+  /**
+   * Line width for `proseWrap: "always"` (default 80), counting blockquote
+   * and list prefixes. East Asian wide characters count as two columns.
+   */
+  printWidth?: number;
+}
+
+/**
+ * Options for `toMarkdown`.
+ */
+export interface MarkdownStyleOptions extends MarkdownOptions, SerializeStyleOptions {}
+
+/**
+ * Options for `parse`.
+ */
+export interface ParseOptions
+  extends MarkdownOptions,
+    WikiLinkResolverOptions,
+    UrlTransformOptions {
+  /**
+   * Annotate every `linkReference`/`imageReference` node with the `url`
+   * and `title` of the definition it refers to. References to undefined
+   * labels get `url: null`, `title: null` and
+   * `data.undefinedReference: true`. Defaults to false.
+   */
+  resolveReferences?: boolean;
+}
+
+/**
+ * A link reference definition (`[label]: url "title"`).
+ */
+export interface LinkDefinition {
+  url: string;
+  /** `null` when the definition has no title */
+  title: string | null;
+}
+
+/**
+ * Root returned by `parse`. Definitions are consumed by the parser and
+ * have no nodes in the tree; they are collected here by normalized label
+ * (see `normalizeLabel`). The first definition of a label wins.
+ */
+export type ParsedRoot = import("mdast").Root & {
+  data: {
+    definitions: Record<string, LinkDefinition>;
+  };
+};
+
+/**
+ * Fields `resolveReferences: true` adds to `linkReference` and
+ * `imageReference` nodes.
+ */
+export interface ResolvedReference {
+  url: string | null;
+  title: string | null;
+  /** Present when the label has no definition */
+  data?: { undefinedReference: true };
+}
+
+/**
+ * Options shared by the HTML renderers.
+ */
+export interface HeadingIdOptions {
+  /**
+   * Give every heading an `id` with its GitHub-style slug (the `slug`
+   * returned by `toc`). Repeated slugs get `-1`, `-2`, … suffixes in
+   * document order, identically in `toHtml` and `toHtmlLiteral`.
+   * Defaults to false.
+   */
+  headingIds?: boolean;
+}
+
+/**
+ * A wikilink target resolved by a `resolveWikiLink` option.
+ */
+export interface ResolvedWikiLink {
+  /** Link destination */
+  href: string;
+  /** false marks a dangling link with the `wikilink-missing` class */
+  exists: boolean;
+  /** Link `title` attribute */
+  title?: string;
+}
+
+/**
+ * Resolve the target and `#fragment` (null when absent) of a wikilink.
+ * Return null or undefined to keep the default `href` (`target#fragment`).
+ * Must be synchronous.
+ */
+export type WikiLinkResolver = (
+  target: string,
+  fragment: string | null
+) => ResolvedWikiLink | null | undefined;
+
+/**
+ * Options shared by `parse` and the HTML renderers (with `wikilinks: true`).
+ */
+export interface WikiLinkResolverOptions {
+  /**
+   * Resolve wikilinks, e.g. page names to slugs. The renderers use the
+   * resolved `href` and `title` and add the `wikilink-missing` class to
+   * links whose target doesn't exist; `parse` adds `href`, `exists` and
+   * `title` to each `wikiLink` node's `data`.
+   *
+   * @example
+   * toHtml("[[My Page]] [[Nowhere]]", {
+   *   wikilinks: true,
+   *   resolveWikiLink: (target) => ({ href: `/${slugify(target)}`, exists: pages.has(target) }),
+   * });
+   */
+  resolveWikiLink?: WikiLinkResolver;
+}
+
+/**
+ * What a URL passed to a `transformUrl` option belongs to: an inline
+ * link, an image, a link reference definition, a `<url>` or bare URL
+ * autolink, or a wikilink.
+ */
+export type UrlKind = "link" | "image" | "definition" | "autolink" | "wikilink";
+
+/**
+ * Rewrite a URL. Return null or undefined to keep it. Must be synchronous.
+ */
+export type UrlTransformer = (
+  url: string,
+  info: { kind: UrlKind }
+) => string | null | undefined;
+
+/**
+ * Options shared by `parse` and the HTML renderers.
+ */
+export interface UrlTransformOptions {
+  /**
+   * Rewrite link and image URLs, e.g. to rebase relative links or serve
+   * images from a CDN. The renderers only change `href` and `src`
+   * attributes, never the text. `parse` rewrites the `url` of `link`,
+   * `image` and resolved reference nodes and of `data.definitions`, and
+   * sets `data.href` on `wikiLink` nodes. Email autolinks are passed with
+   * their `mailto:` prefix. `parse` marks `<url>` autolink nodes with
+   * `data.autolink`; bare URLs are text in the tree, so only the renderers pass them, as
+   * `autolink`. Reference links are not rendered as links, so `definition`
+   * URLs only reach `parse`.
+   *
+   * @example
+   * toHtml("![logo](img/logo.png)", {
+   *   transformUrl: (url, { kind }) =>
+   *     kind === "image" && !/^[a-z]+:/i.test(url) ? `https://cdn.example.com/${url}` : null,
+   * });
+   */
+  transformUrl?: UrlTransformer;
+}
+
+/**
+ * Code block details passed to a `highlight` option. Same split as the
+ * `lang`/`meta` fields of mdast `code` nodes: `null` when absent.
+ */
+export interface CodeBlockInfo {
+  lang: string | null;
+  meta: string | null;
+}
+
+/**
+ * Math details passed to a `renderMath` option.
+ */
+export interface MathInfo {
+  /** true for a `$$` block, false for inline math */
+  display: boolean;
+}
+
+/**
+ * A directive passed to a `directiveHandlers` entry.
+ */
+export interface DirectiveInfo {
+  type: "containerDirective" | "leafDirective" | "textDirective";
+  name: string;
+  attributes: Record<string, string>;
+  /** Rendered label HTML ("" without a label) */
+  label: string;
+  /** Rendered children HTML of a container directive ("" otherwise) */
+  content: string;
+}
+
+/**
+ * Directive renderers by directive name. The returned HTML replaces the
+ * directive; return `null`, `undefined` or `""` to keep the default
+ * `<div data-directive="name">` (`<span>` for text directives), which
+ * holds the content of a container and the label of other directives.
+ */
+export type DirectiveHandlers = Record<
+  string,
+  (directive: DirectiveInfo) => string | null | undefined
+>;
+
+/**
+ * Options for `toHtml`.
+ */
+export interface HtmlOptions
+  extends MarkdownOptions,
+    HeadingIdOptions,
+    WikiLinkResolverOptions,
+    UrlTransformOptions {
+  /**
+   * Highlight code blocks. The returned HTML replaces the whole
+   * `<pre><code>…</code></pre>` element, so highlighters from
+   * `@mizchi/markdown/highlight` can be used as-is. Return `null`,
+   * `undefined` or `""` to keep the default rendering.
+   *
+   * @example
+   * import { highlightIfLoaded } from "@mizchi/markdown/highlight";
+   * toHtml(source, { highlight: (code, { lang }) => lang && highlightIfLoaded(code, lang) });
+   */
+  highlight?: (code: string, info: CodeBlockInfo) => string | null | undefined;
+
+  /**
+   * Render math (with `math: true`). The returned HTML replaces the TeX
+   * source inside `<span class="math-inline">` or
+   * `<div class="math-display">`. Return `null`, `undefined` or `""` to
+   * keep the escaped source.
+   *
+   * @example
+   * import katex from "katex";
+   * toHtml(source, {
+   *   math: true,
+   *   renderMath: (value, { display }) => katex.renderToString(value, { displayMode: display }),
+   * });
+   */
+  renderMath?: (value: string, info: MathInfo) => string | null | undefined;
+
+  /**
+   * Render directives (with `directives: true`) by name.
+   *
+   * @example
+   * toHtml(":::note[Heads up]\nText\n:::\n", {
+   *   directives: true,
+   *   directiveHandlers: {
+   *     note: ({ label, content }) => `<aside><b>${label}</b>${content}</aside>`,
+   *   },
+   * });
+   */
+  directiveHandlers?: DirectiveHandlers;
+
+  /**
+   * Add `data-src-start` / `data-src-end` attributes to every block
+   * element and to `em`, `strong`, `del`, `code`, `a` and `img`. Offsets
+   * are absolute UTF-16 offsets into `source` (the `offset`s of `parse()`
+   * positions), so `source.slice(start, end)` is the element's markdown.
+   * Elements returned by `highlight`, `renderMath` or `directiveHandlers`
+   * are written as returned, and links made from bare URLs are not
+   * annotated. Defaults to false.
+   *
+   * @example
+   * toHtml("Hi *there*\n", { positions: true });
+   * // '<p data-src-start="0" data-src-end="10">Hi <em data-src-start="3" data-src-end="10">there</em></p>\n'
+   */
+  positions?: boolean;
+}
+
+/**
+ * Options for `toHtmlAsync`. `highlight` and `renderMath` may return a
+ * Promise; `directiveHandlers` are synchronous.
+ */
+export interface AsyncHtmlOptions
+  extends MarkdownOptions,
+    HeadingIdOptions,
+    WikiLinkResolverOptions,
+    UrlTransformOptions {
+  highlight?: (
+    code: string,
+    info: CodeBlockInfo
+  ) => string | null | undefined | Promise<string | null | undefined>;
+  renderMath?: (
+    value: string,
+    info: MathInfo
+  ) => string | null | undefined | Promise<string | null | undefined>;
+  directiveHandlers?: DirectiveHandlers;
+  /** See `HtmlOptions.positions`. */
+  positions?: boolean;
 }
 
 /**
@@ -82,21 +428,151 @@ export interface WikiLink {
   data: {
     label: string;
     fragment: string;
+    /** Set by `resolveWikiLink` and `transformUrl` */
+    href?: string;
+    /** Set by `resolveWikiLink` */
+    exists?: boolean;
+    /** Set by `resolveWikiLink` when it returns a title */
+    title?: string;
   };
 }
 
+/**
+ * mdast extension node (mdast-util-math) for `$$` blocks, emitted when
+ * MarkdownOptions.math is enabled.
+ */
+export interface Math {
+  type: "math";
+  /** Text after the opening fence, or null */
+  meta: string | null;
+  value: string;
+}
+
+/**
+ * mdast extension node (mdast-util-math) for `$…$`, emitted when
+ * MarkdownOptions.math is enabled.
+ */
+export interface InlineMath {
+  type: "inlineMath";
+  value: string;
+}
+
+/**
+ * mdast `link` for a `<url>` or `<email>` autolink. Bare URLs stay text
+ * in the tree; only the HTML renderers link them.
+ */
+export interface AutolinkLink extends import("mdast").Link {
+  data: { autolink: true };
+}
+
+/**
+ * Kind of a GitHub alert, from its `[!NOTE]` marker.
+ */
+export type AlertType = "note" | "tip" | "important" | "warning" | "caution";
+
+/**
+ * mdast `blockquote` for a GitHub alert, emitted when
+ * MarkdownOptions.alerts is enabled. The `[!NOTE]` line is not part of
+ * its children.
+ */
+export interface AlertBlockquote extends import("mdast").Blockquote {
+  data: { alert: AlertType };
+}
+
+/**
+ * mdast extension node (mdast-util-directive) for `:::name` … `:::`,
+ * emitted when MarkdownOptions.directives is enabled. A label is the first
+ * child, a paragraph with `data.directiveLabel: true`.
+ */
+export interface ContainerDirective {
+  type: "containerDirective";
+  name: string;
+  attributes: Record<string, string>;
+  children: Array<import("mdast").BlockContent | import("mdast").DefinitionContent>;
+}
+
+/**
+ * mdast extension node (mdast-util-directive) for `::name[label]`; the
+ * label is its children.
+ */
+export interface LeafDirective {
+  type: "leafDirective";
+  name: string;
+  attributes: Record<string, string>;
+  children: import("mdast").PhrasingContent[];
+}
+
+/**
+ * mdast extension node (mdast-util-directive) for `:name[label]`; the
+ * label is its children.
+ */
+export interface TextDirective {
+  type: "textDirective";
+  name: string;
+  attributes: Record<string, string>;
+  children: import("mdast").PhrasingContent[];
+}
+
 // =============================================================================
 // Document Handle
 // =============================================================================
 
+/**
+ * A top-level block present in both versions of a document, by its index
+ * in the previous and the updated `ast.children`.
+ */
+export interface BlockIndexPair {
+  oldIndex: number;
+  newIndex: number;
+}
+
+/**
+ * Top-level blocks affected by an incremental update, as indices into
+ * `ast.children` of the previous and the updated document.
+ */
+export interface DocumentChanges {
+  /** Blocks outside the edited region, carried over without re-parsing */
+  reused: BlockIndexPair[];
+  /** Blocks in the edited region that replace an old block at the same place */
+  reparsed: BlockIndexPair[];
+  /** New blocks in the edited region with no old counterpart (new indices) */
+  inserted: number[];
+  /** Old blocks in the edited region with no new counterpart (old indices) */
+  removed: number[];
+}
+
 /**
  * A parsed markdown document with handle-based management.
  */
 export interface DocumentHandle {
-  /** Get the parsed AST (cached after first access) */
-  readonly ast: import("mdast").Root;
+  /**
+   * Position of this handle in its edit history: 0 for the handle returned
+   * by `createDocument`, incremented by each `update`.
+   */
+  readonly version: number;
 
-  /** Render the document to HTML */
+  /**
+   * What the `update` that produced this handle changed, or `null` for a
+   * handle returned by `createDocument`.
+   */
+  readonly changes: DocumentChanges | null;
+
+  /**
+   * Get the parsed AST (cached after first access).
+   * After an `update`, if the previous version's AST was already built, the
+   * new one is patched from it: reused blocks are deep copies (with shifted
+   * positions after the edit), so changing one version's tree never changes
+   * another's, and only reparsed and inserted blocks are serialized anew.
+   * Link reference
+   * definitions are in `data.definitions`, as returned by `parse`.
+   */
+  readonly ast: ParsedRoot;
+
+  /**
+   * Render the document to HTML with the options passed to
+   * `createDocument`, exactly like `toHtml(source, options)`. Render hooks
+   * (`highlight`, `transformUrl`, …) must be synchronous.
+   */
   toHtml(): string;
 
   /** Serialize the document back to markdown */
@@ -104,11 +580,16 @@ export interface DocumentHandle {
 
   /**
    * Apply an incremental edit and return a new document.
-   * The original document is not modified.
+   * The original document is not modified and stays readable, but only the
+   * latest version can be updated: calling `update` on an older version or
+   * on a disposed handle throws.
    */
   update(newSource: string, edit: EditInfo): DocumentHandle;
 
-  /** Free the document resources */
+  /**
+   * Free the document resources. Any further use of this handle throws;
+   * calling `dispose` again is a no-op.
+   */
   dispose(): void;
 }
 
@@ -119,11 +600,32 @@ export interface DocumentHandle {
 /**
  * Parse markdown and return the AST (mdast Root).
  *
+ * Every node carries a unist `position` with 1-based `line`/`column` and
+ * a 0-based `offset` into `source` (UTF-16 code units, like remark).
+ * Link reference definitions are returned in `data.definitions`.
+ *
  * @example
  * const ast = parse("# Hello\n\nWorld");
  * console.log(ast.children[0].type); // "heading"
+ *
+ * @example
+ * const ast = parse("[Docs][] and [x][missing]\n\n[docs]: /docs", { resolveReferences: true });
+ * ast.data.definitions; // => { docs: { url: "/docs", title: null } }
+ * // paragraph children: linkReference with url "/docs", and one with
+ * // url null and data.undefinedReference true
  */
-export function parse(source: string, options?: MarkdownOptions): import("mdast").Root;
+export function parse(source: string, options?: ParseOptions): ParsedRoot;
+
+/**
+ * Normalize a link label the CommonMark way: surrounding whitespace is
+ * stripped, inner whitespace runs collapse to one space and letters are
+ * case-folded. Use it to look up `data-md-image-ref` values or labels
+ * from other sources in `ParsedRoot.data.definitions`.
+ *
+ * @example
+ * normalizeLabel("  Foo\n Bar "); // => "foo bar"
+ */
+export function normalizeLabel(label: string): string;
 
 /**
  * Convert markdown to HTML.
@@ -132,16 +634,125 @@ export function parse(source: string, options?: MarkdownOptions): import("mdast"
  * const html = toHtml("# Hello\n\n**Bold** text");
  * // => "<h1>Hello</h1>\n<p><strong>Bold</strong> text</p>\n"
  */
-export function toHtml(source: string, options?: MarkdownOptions): string;
+export function toHtml(source: string, options?: HtmlOptions): string;
+
+/**
+ * Convert markdown to HTML with async `highlight` / `renderMath` options,
+ * e.g. ones that lazily load highlighters. Blocks are rendered
+ * concurrently. The synchronous hooks are called once per node, except a
+ * directive handler whose content holds code or math: it is called again
+ * with the content rendered by `highlight` and `renderMath`.
+ *
+ * @example
+ * import { highlight } from "@mizchi/markdown/highlight";
+ * const html = await toHtmlAsync(source, {
+ *   highlight: (code, { lang }) => (lang ? highlight(code, lang) : null),
+ * });
+ */
+export function toHtmlAsync(source: string, options?: AsyncHtmlOptions): Promise<string>;
 
 /**
- * Normalize/serialize markdown source.
+ * Normalize/serialize markdown source. Style options pick the markers;
+ * unknown values throw a TypeError.
  *
  * @example
  * const normalized = toMarkdown("# Hello\n\n\n\nWorld");
  * // => "# Hello\n\nWorld\n"
+ *
+ * @example
+ * toMarkdown("- *a* **b**\n", { bullet: "*", emphasis: "_", strong: "_" });
+ * // => "* _a_ __b__\n"
+ */
+export function toMarkdown(source: string, options?: MarkdownStyleOptions): string;
+
+/**
+ * Render an mdast tree to HTML with the same renderer as `toHtml`.
+ *
+ * Accepts the node shapes `parse()` returns, including `wikiLink`, so a
+ * tree can be parsed, transformed in JS and rendered without going back
+ * through source text. Nodes the renderer has no form for (e.g.
+ * `definition`) are skipped. Only the `autolink` and `headingIds` options
+ * apply.
+ *
+ * @example
+ * const ast = parse("# Hello");
+ * ast.children.push({ type: "paragraph", children: [{ type: "text", value: "Added" }] });
+ * astToHtml(ast); // => "<h1>Hello</h1>\n<p>Added</p>\n"
  */
-export function toMarkdown(source: string, options?: MarkdownOptions): string;
+export function astToHtml(
+  root: import("mdast").Root,
+  options?: MarkdownOptions & HeadingIdOptions,
+): string;
+
+/**
+ * Serialize an mdast tree to markdown with the same serializer and style
+ * options as `toMarkdown`. Accepts the same node shapes as `astToHtml`.
+ *
+ * @example
+ * astToMarkdown(parse("# Hello\n\n\n\nWorld")); // => "# Hello\n\nWorld\n"
+ */
+export function astToMarkdown(
+  root: import("mdast").Root,
+  options?: SerializeStyleOptions,
+): string;
+
+/** Syntax of a frontmatter block: `---` fences for YAML, `+++` for TOML. */
+export type FrontmatterFormat = "yaml" | "toml";
+
+/**
+ * A frontmatter value. YAML nulls, booleans and numbers are typed; dates,
+ * times and anything else stay strings.
+ */
+export type FrontmatterValue =
+  | string
+  | number
+  | boolean
+  | null
+  | FrontmatterValue[]
+  | { [key: string]: FrontmatterValue };
+
+/**
+ * Result of `parseFrontmatter`.
+ */
+export interface FrontmatterResult {
+  /** Parsed top-level mapping (`{}` when there is no frontmatter) */
+  data: Record<string, FrontmatterValue>;
+  /** Block syntax, or null when there is no frontmatter */
+  format: FrontmatterFormat | null;
+  /** Offsets of the block including both fences, or null */
+  span: { start: number; end: number } | null;
+  /** The source after the block (the whole source when there is none) */
+  body: string;
+}
+
+/**
+ * Parse the YAML (`---`) or TOML (`+++`) frontmatter block at the start of
+ * a document. The block must open on the first line and be closed.
+ *
+ * @example
+ * parseFrontmatter("---\ntitle: Hi\ndraft: false\n---\n# Hi\n");
+ * // => { data: { title: "Hi", draft: false }, format: "yaml",
+ * //      span: { start: 0, end: 31 }, body: "# Hi\n" }
+ */
+export function parseFrontmatter(source: string): FrontmatterResult;
+
+/**
+ * Set or remove top-level frontmatter keys and return the new source.
+ *
+ * Keys whose value is `undefined` are removed. Existing keys are rewritten
+ * in place, new keys are appended after the last entry (before the first
+ * table in TOML, where `null` also removes a key). Untouched entries,
+ * comments and the document body keep their exact bytes. A document
+ * without frontmatter gets a new YAML block.
+ *
+ * @example
+ * updateFrontmatter("---\ntitle: Old\n---\nBody\n", { title: "New", tags: ["a"] });
+ * // => "---\ntitle: New\ntags:\n  - a\n---\nBody\n"
+ */
+export function updateFrontmatter(
+  source: string,
+  patch: Record<string, unknown>,
+): string;
 
 /**
  * Render markdown using the "literal" mode, which preserves syntax markers
@@ -160,7 +771,11 @@ export function toMarkdown(source: string, options?: MarkdownOptions): string;
  * toHtmlLiteral("## Intro\n");
  * // => '<h2><span class="md-marker" aria-hidden="true">## </span>Intro</h2>\n'
  */
-export interface LiteralOptions extends MarkdownOptions {
+export interface LiteralOptions
+  extends MarkdownOptions,
+    HeadingIdOptions,
+    WikiLinkResolverOptions,
+    UrlTransformOptions {
   /**
    * When true, every top-level block element in the rendered HTML carries
    * `data-src-start` / `data-src-end` attributes (character offsets in
@@ -197,6 +812,381 @@ export interface LiteralOptions extends MarkdownOptions {
 
 export function toHtmlLiteral(source: string, options?: LiteralOptions): string;
 
+/**
+ * Options for `toc`.
+ */
+export interface TocOptions extends MarkdownOptions {
+  /** Shallowest heading depth to include (default 1) */
+  minDepth?: number;
+  /** Deepest heading depth to include (default 6) */
+  maxDepth?: number;
+}
+
+/**
+ * A heading in the table of contents.
+ */
+export interface TocEntry {
+  /** Heading depth, 1-6 */
+  depth: number;
+  /** Plain text of the heading */
+  text: string;
+  /** GitHub-style slug, unique within the document */
+  slug: string;
+  /** Source offsets of the heading (UTF-16 code units) */
+  span: { start: number; end: number };
+  /** Deeper headings that follow, up to the next heading of this depth or shallower */
+  children: TocEntry[];
+}
+
+/**
+ * Extract the table of contents as a nested heading tree.
+ *
+ * Slugs are assigned to every heading in document order, including those
+ * outside `minDepth`/`maxDepth`, so they always match the `id`s rendered by
+ * the `headingIds` option.
+ *
+ * @example
+ * toc("# Guide\n\n## Setup\n\n## Setup\n", { minDepth: 2 });
+ * // => [
+ * //   { depth: 2, text: "Setup", slug: "setup", span: { start: 9, end: 17 }, children: [] },
+ * //   { depth: 2, text: "Setup", slug: "setup-1", span: { start: 19, end: 27 }, children: [] },
+ * // ]
+ */
+export function toc(source: string, options?: TocOptions): TocEntry[];
+
+/**
+ * Options for `chunkBySections`.
+ */
+export interface ChunkOptions extends MarkdownOptions {
+  /**
+   * Split sections whose text is longer than this many characters. Splits
+   * fall between top-level blocks, never inside a code block, table or
+   * list, so a single long block still makes one chunk. No limit by
+   * default.
+   */
+  maxChars?: number;
+  /**
+   * Shallowest heading depth that starts a chunk (default 1). Shallower
+   * headings, such as a page title, stay in the text of the chunk they
+   * fall in and are left out of paths.
+   */
+  minDepth?: number;
+}
+
+/**
+ * A heading-delimited chunk returned by `chunkBySections`.
+ */
+export interface SectionChunk {
+  /** Texts of the enclosing headings, ending with the section's own */
+  path: string[];
+  /** Plain text of the section without its heading, blocks separated by blank lines */
+  text: string;
+  /** Slug of the section's heading, as rendered by `headingIds`; null before the first heading */
+  slug: string | null;
+  /** Source offsets of the chunk (UTF-16 code units) */
+  span: { start: number; end: number };
+}
+
+/**
+ * Split a document into heading-delimited chunks for search and retrieval.
+ * Every top-level heading starts a section that runs to the next one; text
+ * before the first heading makes a chunk with an empty path. Headings
+ * inside blockquotes and lists don't start sections.
+ *
+ * @example
+ * chunkBySections("# Guide\n\nIntro\n\n## Install\n\nRun `npm i`.\n");
+ * // => [
+ * //   { path: ["Guide"], text: "Intro", slug: "guide", span: { start: 0, end: 14 } },
+ * //   { path: ["Guide", "Install"], text: "Run npm i.", slug: "install", span: { start: 16, end: 40 } },
+ * // ]
+ */
+export function chunkBySections(source: string, options?: ChunkOptions): SectionChunk[];
+
+/**
+ * Options for `toText`.
+ */
+export interface TextOptions extends MarkdownOptions {
+  /**
+   * Keep the document's line structure: blocks separated by a blank line,
+   * tight list items and table rows by a line break, and line breaks
+   * inside paragraphs and code kept. Otherwise whitespace is collapsed to
+   * single spaces on one line. Defaults to false.
+   */
+  preserveLineBreaks?: boolean;
+  /** Keep code spans, code blocks and math. Defaults to true. */
+  includeCode?: boolean;
+  /** Keep image alt text. Defaults to true. */
+  includeAlt?: boolean;
+}
+
+/**
+ * Statistics of the text returned by `toText`.
+ */
+export interface TextStats {
+  /**
+   * Space-separated words, plus one per CJK character (Han, Hiragana and
+   * Katakana), since those scripts don't separate words with spaces
+   */
+  words: number;
+  /** Characters other than whitespace (Unicode code points) */
+  characters: number;
+  /**
+   * Estimated reading time in whole minutes, rounded up: 200 words or
+   * 500 CJK characters a minute. 0 for empty text.
+   */
+  readingTime: number;
+}
+
+/**
+ * Result of `toText`.
+ */
+export interface TextResult {
+  text: string;
+  stats: TextStats;
+}
+
+/**
+ * Extract plain text for search excerpts, previews and word counts. Markup
+ * is stripped; link text and image alt text are kept, raw HTML, footnote
+ * references and frontmatter are dropped. The statistics count the
+ * returned text.
+ *
+ * @example
+ * toText("# Hello\n\nSee [the *docs*](/docs). 日本語\n");
+ * // => {
+ * //   text: "Hello See the docs. 日本語",
+ * //   stats: { words: 7, characters: 19, readingTime: 1 },
+ * // }
+ */
+export function toText(source: string, options?: TextOptions): TextResult;
+
+/**
+ * Rules checked by `lint`:
+ * - `heading-increment`: a heading more than one level deeper than the previous one
+ * - `no-duplicate-headings`: a heading with the same text as an earlier one
+ * - `no-undefined-references`: a reference link or image whose label has no definition
+ * - `no-unused-definitions`: a link reference definition no reference uses
+ * - `no-undefined-footnotes`: a footnote reference without a footnote definition
+ * - `no-empty-links`: a link without a destination (or just `#`) or without text
+ * - `no-missing-alt`: an image without alt text
+ * - `no-bare-urls`: a bare `http(s)://` URL, only reported with `autolink: false`
+ */
+export type LintRuleId =
+  | "heading-increment"
+  | "no-duplicate-headings"
+  | "no-undefined-references"
+  | "no-unused-definitions"
+  | "no-undefined-footnotes"
+  | "no-empty-links"
+  | "no-missing-alt"
+  | "no-bare-urls";
+
+export type LintSeverity = "warning" | "error";
+
+/**
+ * Options for `lint`. Parser extensions matter: with `autolink: false`
+ * bare URLs are reported, since they won't render as links.
+ */
+export interface LintOptions extends MarkdownOptions {
+  /**
+   * Turn rules off or override their severity. Undefined references and
+   * footnotes are errors by default, the other rules warnings.
+   */
+  rules?: Partial<Record<LintRuleId, LintSeverity | "off">>;
+}
+
+/**
+ * A text edit: replace `start..end` of the source with `text`. Offsets are
+ * UTF-16 code units.
+ */
+export interface LintFix {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * A problem reported by `lint`.
+ */
+export interface LintDiagnostic {
+  ruleId: LintRuleId;
+  severity: LintSeverity;
+  message: string;
+  /** Source offsets of the offending text (UTF-16 code units) */
+  start: number;
+  end: number;
+  /**
+   * Exact edit that fixes the problem, when there is one: a skipped ATX
+   * heading level, an unused top-level definition (removed), a link
+   * without destination (replaced by its text) and a bare URL (wrapped
+   * in `<>`)
+   */
+  fix?: LintFix;
+}
+
+/**
+ * Lint a document on its lossless syntax tree. Diagnostics come in source
+ * order.
+ *
+ * @example
+ * lint("# Title\n\n### Setup\n\nSee [docs][].\n");
+ * // => [
+ * //   { ruleId: "heading-increment", severity: "warning",
+ * //     message: "Heading level 3 follows level 1", start: 9, end: 18,
+ * //     fix: { start: 9, end: 12, text: "##" } },
+ * //   { ruleId: "no-undefined-references", severity: "error",
+ * //     message: "Reference \"docs\" is not defined", start: 24, end: 32 },
+ * // ]
+ */
+export function lint(source: string, options?: LintOptions): LintDiagnostic[];
+
+/**
+ * Apply the fixes of `lint` diagnostics to the same source. Fixes that
+ * overlap an earlier one are skipped; lint again to catch them.
+ *
+ * @example
+ * const source = "# Title\n\n### Setup\n";
+ * applyFixes(source, lint(source)); // => "# Title\n\n## Setup\n"
+ */
+export function applyFixes(source: string, diagnostics: readonly LintDiagnostic[]): string;
+
+/**
+ * Find every node matching a CSS-like selector, in document order. A
+ * selector combines node types (`*` for any) with attribute tests —
+ * `[lang]` (present and not null), `[depth=2]`, `[url^=https]`,
+ * `[url$=".png"]`, `[value*=todo]` — compared as strings, so numbers and
+ * booleans match too; dotted names read nested fields
+ * (`[data.alert=note]`). Compound selectors are joined by the descendant
+ * (space), child (`>`), next-sibling (`+`) and later-sibling (`~`)
+ * combinators, and `,` separates alternatives. The root itself can match.
+ * Throws a TypeError for an invalid selector.
+ *
+ * @example
+ * const root = parse("## Install\n\n```ts\nnpm i\n```\n");
+ * selectAll(root, "heading[depth=2] + code[lang=ts]"); // => [code node]
+ */
+export function selectAll(root: import("mdast").Nodes, selector: string): import("mdast").Nodes[];
+
+/**
+ * First node, in document order, matching a selector (see `selectAll`),
+ * or undefined.
+ *
+ * @example
+ * select(parse("1. a\n2. b\n"), "list[ordered=true] > listItem");
+ */
+export function select(
+  root: import("mdast").Nodes,
+  selector: string,
+): import("mdast").Nodes | undefined;
+
+/** Returned by a `visit` visitor to leave the node's children unvisited. */
+export declare const SKIP: unique symbol;
+
+/**
+ * What a `visit` visitor returns: nothing to continue, `SKIP` to leave
+ * the node's children out, or nodes to replace it with (an empty array
+ * removes it).
+ */
+export type VisitorResult =
+  | void
+  | null
+  | typeof SKIP
+  | import("mdast").RootContent
+  | import("mdast").RootContent[];
+
+/**
+ * Called for each visited node with its index in its parent's children
+ * (undefined for the root).
+ */
+export type Visitor<T extends import("mdast").Nodes = import("mdast").Nodes> = (
+  node: T,
+  index: number | undefined,
+  parent: import("mdast").Parents | undefined,
+) => VisitorResult;
+
+/**
+ * Walk a tree depth-first, calling `visitor` for each node that passes
+ * `test`: a node type, a predicate, or null for every node. Nodes
+ * returned by the visitor replace the visited node in place and are not
+ * visited themselves; the root cannot be replaced.
+ *
+ * @example
+ * visit(root, "heading", (node) => {
+ *   node.depth = Math.min(node.depth + 1, 6) as Heading["depth"];
+ * });
+ * visit(root, "html", () => []); // remove raw HTML
+ */
+export function visit<Type extends import("mdast").Nodes["type"]>(
+  root: import("mdast").Nodes,
+  test: Type,
+  visitor: Visitor<Extract<import("mdast").Nodes, { type: Type }>>,
+): void;
+export function visit<T extends import("mdast").Nodes>(
+  root: import("mdast").Nodes,
+  test: (node: import("mdast").Nodes) => node is T,
+  visitor: Visitor<T>,
+): void;
+export function visit(
+  root: import("mdast").Nodes,
+  test: ((node: import("mdast").Nodes) => boolean) | null | undefined,
+  visitor: Visitor,
+): void;
+
+/**
+ * Result of `StreamRenderer.push`.
+ */
+export interface StreamRenderResult {
+  /** HTML of every completed block so far; it only ever grows */
+  finalized: string;
+  /** The part of `finalized` added by this push */
+  delta: string;
+  /**
+   * HTML of the trailing block, which may still change. Open inline
+   * syntax on its last line (`**bold`, `` `code ``) is closed and a
+   * dangling marker run is dropped, so partial syntax doesn't flicker.
+   * Replace the previous provisional HTML with this on every push.
+   */
+  provisional: string;
+}
+
+/**
+ * Renderer for markdown that arrives in chunks. See `createStreamRenderer`.
+ */
+export interface StreamRenderer {
+  /** All text pushed so far */
+  readonly source: string;
+  /** Append a chunk and render the blocks it affects */
+  push(chunk: string): StreamRenderResult;
+  /**
+   * End the stream: render the trailing block as-is and return the full
+   * HTML, identical to `toHtml(source, options)`. The renderer can't be
+   * used after.
+   */
+  finish(): string;
+}
+
+/**
+ * Create a renderer for streamed markdown such as LLM chat responses.
+ *
+ * A block followed by another block can no longer change: it is rendered
+ * once into `finalized`. Each push parses only the text from the start of
+ * the trailing block, so its work is proportional to that block rather
+ * than the whole buffer, and re-renders just the trailing block. Reference
+ * links are not resolved into links, as in `toHtml`.
+ *
+ * Accepts the parser options and `autolink`. `headingIds` and `positions`
+ * depend on the whole document and throw a `TypeError`.
+ *
+ * @example
+ * const stream = createStreamRenderer();
+ * stream.push("# Title\n\nSome **bo");
+ * // => { finalized: "<h1>Title</h1>\n", delta: "<h1>Title</h1>\n",
+ * //      provisional: "<p>Some <strong>bo</strong></p>\n" }
+ * stream.push("ld** text");
+ * stream.finish(); // => "<h1>Title</h1>\n<p>Some <strong>bold</strong> text</p>\n"
+ */
+export function createStreamRenderer(options?: MarkdownOptions): StreamRenderer;
+
 /**
  * Create a new document handle from markdown source.
  * Use this for incremental parsing scenarios.
@@ -214,7 +1204,7 @@ export function toHtmlLiteral(source: string, options?: LiteralOptions): string;
  *
  * doc.dispose(); // Free resources
  */
-export function createDocument(source: string, options?: MarkdownOptions): DocumentHandle;
+export function createDocument(source: string, options?: HtmlOptions): DocumentHandle;
 
 /**
  * Create an EditInfo for insertion.
@@ -5,21 +5,30 @@
  */
 
 import {
-  md_to_html,
-  md_to_html_without_autolink,
-  md_to_html_with_wikilinks_and_autolink,
-  md_to_html_with_wikilinks_without_autolink,
+  md_to_html_with_flags,
+  md_to_html_with_hooks,
   md_to_html_literal,
-  md_to_markdown,
-  md_to_markdown_with_wikilinks,
-  md_to_ast_json,
-  md_to_ast_json_with_wikilinks,
-  md_render_html_with_autolink,
-  md_render_html_without_autolink,
+  md_to_html_literal_with_hooks,
+  md_to_markdown_with_style,
+  md_to_ast_json_with_flags,
+  md_ast_to_html,
+  md_ast_to_markdown_with_style,
+  md_parse_frontmatter,
+  md_update_frontmatter,
+  md_toc,
+  md_chunk_sections,
+  md_to_text,
+  md_lint,
+  md_normalize_label,
+  md_render_html_with_flags,
   md_serialize,
-  md_parse_with_source,
-  md_parse_with_source_with_wikilinks,
+  md_parse_with_source_flags,
   md_parse_incremental,
+  md_get_ast,
+  md_get_changes,
+  md_get_ast_children,
+  md_get_block_spans,
+  md_render_children_html,
   md_free,
 } from "../_build/js/release/build/api/api.js";
 
@@ -35,50 +44,423 @@ function useAutolink(options) {
   return options?.autolink !== false;
 }
 
+function useStrict(options) {
+  return options?.strict === true;
+}
+
+/** Bit flags accepted by the `*_with_flags` FFI exports. */
+const OPTION_WIKILINKS = 1;
+const OPTION_AUTOLINK = 2;
+const OPTION_STRICT = 4;
+const OPTION_HEADING_IDS = 8;
+const OPTION_RESOLVE_REFERENCES = 16;
+const OPTION_MATH = 32;
+const OPTION_ALERTS = 64;
+const OPTION_DIRECTIVES = 128;
+const OPTION_POSITIONS = 256;
+
+function optionFlags(options) {
+  let flags = 0;
+  if (useWikilinks(options)) flags |= OPTION_WIKILINKS;
+  if (useAutolink(options)) flags |= OPTION_AUTOLINK;
+  if (useStrict(options)) flags |= OPTION_STRICT;
+  if (options?.headingIds === true) flags |= OPTION_HEADING_IDS;
+  if (options?.resolveReferences === true) flags |= OPTION_RESOLVE_REFERENCES;
+  if (options?.math === true) flags |= OPTION_MATH;
+  if (options?.alerts === true) flags |= OPTION_ALERTS;
+  if (options?.directives === true) flags |= OPTION_DIRECTIVES;
+  if (options?.positions === true) flags |= OPTION_POSITIONS;
+  return flags;
+}
+
 /**
- * Parse markdown and return the AST.
+ * Parse markdown and return the AST. Every node has a unist `position`;
+ * link reference definitions are in `root.data.definitions`.
  * @param {string} source - Markdown source
- * @param {{ wikilinks?: boolean, autolink?: boolean }} [options] - Parser and renderer extensions
- * @returns {import('./api').Document} Parsed AST
+ * @param {import('./api').ParseOptions} [options] - Parser extensions and reference resolution
+ * @returns {import('./api').ParsedRoot} Parsed AST
  */
 export function parse(source, options = {}) {
-  const json = useWikilinks(options)
-    ? md_to_ast_json_with_wikilinks(source)
-    : md_to_ast_json(source);
-  return JSON.parse(json);
+  const root = JSON.parse(md_to_ast_json_with_flags(source, optionFlags(options)));
+  if (typeof options?.resolveWikiLink === "function") {
+    resolveWikiLinks(root, wikiLinkResolver(options.resolveWikiLink, "parse"));
+  }
+  if (typeof options?.transformUrl === "function") {
+    const transform = urlTransformer(options.transformUrl, "parse");
+    for (const definition of Object.values(root.data.definitions)) {
+      definition.url = transform(definition.url, "definition");
+    }
+    transformUrls(root, transform);
+  }
+  return root;
+}
+
+/** Add the resolved `href`, `exists` and `title` to every wikiLink's data. */
+function resolveWikiLinks(node, resolve) {
+  if (node.type === "wikiLink") {
+    const resolved = resolve(node.value, node.data.fragment);
+    if (resolved) Object.assign(node.data, resolved);
+  }
+  if (Array.isArray(node.children)) {
+    for (const child of node.children) resolveWikiLinks(child, resolve);
+  }
+}
+
+/**
+ * Rewrite the URLs of link, image, resolved reference and wikiLink nodes.
+ * `<url>` autolinks are link nodes too, marked with `data.autolink`.
+ */
+function transformUrls(node, transform) {
+  switch (node.type) {
+    case "link":
+      node.url = transform(node.url, node.data?.autolink ? "autolink" : "link");
+      break;
+    case "image":
+      node.url = transform(node.url, "image");
+      break;
+    case "linkReference":
+    case "imageReference":
+      if (typeof node.url === "string") node.url = transform(node.url, "definition");
+      break;
+    case "wikiLink": {
+      const { fragment } = node.data;
+      const href = node.data.href ?? (fragment ? `${node.value}#${fragment}` : node.value);
+      node.data.href = transform(href, "wikilink");
+      break;
+    }
+  }
+  if (Array.isArray(node.children)) {
+    for (const child of node.children) transformUrls(child, transform);
+  }
+}
+
+/**
+ * Call a `transformUrl` option with `(url, { kind })`; a nullish result
+ * keeps the URL.
+ */
+function urlTransformer(transformUrl, fn) {
+  return (url, kind) => {
+    const result = transformUrl(url, { kind });
+    if (result == null) return url;
+    if (typeof result.then === "function") {
+      throw new TypeError(`${fn}: transformUrl returned a Promise; it must be synchronous`);
+    }
+    return String(result);
+  };
+}
+
+/**
+ * Call a `resolveWikiLink` option with `(target, fragment | null)` and
+ * normalize its result to `{ href, exists, title? }`, or null to keep the
+ * default link.
+ */
+function wikiLinkResolver(resolveWikiLink, fn) {
+  return (target, fragment) => {
+    const resolved = resolveWikiLink(target, fragment || null);
+    if (resolved == null) return null;
+    if (typeof resolved.then === "function") {
+      throw new TypeError(`${fn}: resolveWikiLink returned a Promise; it must be synchronous`);
+    }
+    const result = { href: String(resolved.href), exists: resolved.exists !== false };
+    if (resolved.title != null) result.title = String(resolved.title);
+    return result;
+  };
+}
+
+/** A wikiLinkResolver as an FFI callback: JSON, or "" for the default link. */
+function wikiLinkHook(resolve) {
+  return (target, fragment) => {
+    const resolved = resolve?.(target, fragment);
+    return resolved ? JSON.stringify(resolved) : "";
+  };
 }
 
 /**
  * Convert markdown to HTML.
  * @param {string} source - Markdown source
- * @param {{ wikilinks?: boolean, autolink?: boolean }} [options] - Parser and renderer extensions
+ * @param {import('./api').HtmlOptions} [options] - Parser and renderer extensions
  * @returns {string} HTML output
  */
 export function toHtml(source, options = {}) {
-  const wikilinks = useWikilinks(options);
-  const autolink = useAutolink(options);
-  if (wikilinks && autolink) {
-    return md_to_html_with_wikilinks_and_autolink(source);
+  const { highlight, renderMath, renderDirective, resolveWikiLink, transformUrl } =
+    renderHooks(options);
+  if (!highlight && !renderMath && !renderDirective && !resolveWikiLink && !transformUrl) {
+    return md_to_html_with_flags(source, optionFlags(options));
   }
-  if (wikilinks) {
-    return md_to_html_with_wikilinks_without_autolink(source);
+  return renderWithHooks(
+    source,
+    options,
+    highlight && ((code, info) => syncResult(highlight(code, info), "highlight")),
+    renderMath && ((value, info) => syncResult(renderMath(value, info), "renderMath")),
+    renderDirective && ((directive) => directiveResult(renderDirective(directive), directive, "toHtml")),
+    resolveWikiLink && wikiLinkResolver(resolveWikiLink, "toHtml"),
+    transformUrl && urlTransformer(transformUrl, "toHtml"),
+  );
+}
+
+/**
+ * Convert markdown to HTML, awaiting async `highlight` and `renderMath`
+ * options. Code blocks and math are rendered concurrently; directive
+ * handlers stay synchronous.
+ * @param {string} source - Markdown source
+ * @param {import('./api').AsyncHtmlOptions} [options] - Parser and renderer extensions
+ * @returns {Promise<string>} HTML output
+ */
+export async function toHtmlAsync(source, options = {}) {
+  const { highlight, renderMath, renderDirective, resolveWikiLink, transformUrl } =
+    renderHooks(options);
+  if (!highlight && !renderMath && !renderDirective && !resolveWikiLink && !transformUrl) {
+    return md_to_html_with_flags(source, optionFlags(options));
+  }
+  // Render twice: the first pass collects the pending highlight and math
+  // results, the second inserts them. The second pass replays what the
+  // synchronous hooks returned in the first; both passes visit the nodes
+  // in the same order, so the results line up.
+  const code = [];
+  const math = [];
+  const directiveHook = recordedHook(
+    renderDirective &&
+      ((directive) => directiveResult(renderDirective(directive), directive, "toHtmlAsync")),
+  );
+  const resolveHook = recordedHook(
+    resolveWikiLink && wikiLinkResolver(resolveWikiLink, "toHtmlAsync"),
+  );
+  const urlHook = recordedHook(transformUrl && urlTransformer(transformUrl, "toHtmlAsync"));
+  renderWithHooks(
+    source,
+    options,
+    highlight &&
+      ((value, info) => {
+        code.push(highlight(value, info));
+        return null;
+      }),
+    renderMath &&
+      ((value, info) => {
+        math.push(renderMath(value, info));
+        return null;
+      }),
+    directiveHook.record,
+    resolveHook.record,
+    urlHook.record,
+  );
+  const [codeResults, mathResults] = await Promise.all([Promise.all(code), Promise.all(math)]);
+  let codeIndex = 0;
+  let mathIndex = 0;
+  return renderWithHooks(
+    source,
+    options,
+    highlight && (() => codeResults[codeIndex++]),
+    renderMath && (() => mathResults[mathIndex++]),
+    directiveHook.replay,
+    resolveHook.replay,
+    urlHook.replay,
+  );
+}
+
+/**
+ * Wrap a hook so `record` calls it and keeps each result, and `replay`
+ * returns the kept results in call order without calling it again. A
+ * replayed call whose arguments differ, such as a directive whose content
+ * now holds highlighted code, calls the hook anew. Both are null when
+ * `hook` is.
+ */
+function recordedHook(hook) {
+  if (!hook) return { record: null, replay: null };
+  const calls = [];
+  let index = 0;
+  return {
+    record: (...args) => {
+      const result = hook(...args);
+      calls.push({ key: JSON.stringify(args), result });
+      return result;
+    },
+    replay: (...args) => {
+      const call = calls[index++];
+      return call?.key === JSON.stringify(args) ? call.result : hook(...args);
+    },
+  };
+}
+
+/** The function-valued render hooks in `options`, or null. */
+function renderHooks(options) {
+  const handlers = options?.directiveHandlers;
+  return {
+    highlight: typeof options?.highlight === "function" ? options.highlight : null,
+    renderMath: typeof options?.renderMath === "function" ? options.renderMath : null,
+    renderDirective:
+      handlers != null && typeof handlers === "object"
+        ? (directive) => {
+            const handler = Object.hasOwn(handlers, directive.name) ? handlers[directive.name] : null;
+            return typeof handler === "function" ? handler(directive) : null;
+          }
+        : null,
+    resolveWikiLink:
+      typeof options?.resolveWikiLink === "function" ? options.resolveWikiLink : null,
+    transformUrl: typeof options?.transformUrl === "function" ? options.transformUrl : null,
+  };
+}
+
+/** Reject a Promise returned by a hook passed to the synchronous `toHtml`. */
+function syncResult(html, hook) {
+  if (typeof html?.then === "function") {
+    throw new TypeError(`toHtml: ${hook} returned a Promise; use toHtmlAsync`);
   }
-  if (!autolink) {
-    return md_to_html_without_autolink(source);
+  return html;
+}
+
+/** Reject a Promise returned by a directive handler. */
+function directiveResult(html, directive, fn) {
+  if (typeof html?.then === "function") {
+    throw new TypeError(`${fn}: directiveHandlers.${directive.name} returned a Promise; directive handlers must be synchronous`);
   }
-  return md_to_html(source);
+  return html;
+}
+
+/**
+ * Render with a `(code, { lang, meta }) => html | null | undefined`
+ * callback for code blocks, a `(value, { display }) => html | null |
+ * undefined` callback for math, a `(directive) => html | null |
+ * undefined` callback for directives, a wikiLinkResolver and a
+ * urlTransformer; a nullish or empty result keeps the default. Any
+ * callback may be null.
+ */
+function renderWithHooks(
+  source,
+  options,
+  highlight,
+  renderMath,
+  renderDirective,
+  resolveWikiLink,
+  transformUrl,
+) {
+  return md_to_html_with_hooks(
+    source,
+    optionFlags(options),
+    (code, lang, meta) =>
+      highlight?.(code, { lang: lang || null, meta: meta || null }) ?? "",
+    (value, display) => renderMath?.(value, { display }) ?? "",
+    (type, name, attributes, label, content) =>
+      renderDirective?.({ type, name, attributes: JSON.parse(attributes), label, content }) ?? "",
+    wikiLinkHook(resolveWikiLink),
+    (url, kind) => transformUrl?.(url, kind) ?? url,
+  );
+}
+
+/** Accepted values of the serializer style options. */
+const STYLE_OPTIONS = {
+  bullet: ["-", "*", "+"],
+  emphasis: ["*", "_"],
+  strong: ["*", "_"],
+  fence: ["```", "~~~"],
+  headingStyle: ["atx", "setext"],
+  listIndent: ["one", "tab", "mixed"],
+  proseWrap: ["preserve", "always", "never"],
+};
+
+/**
+ * JSON style options for the `*_with_style` FFI exports. Throws a
+ * TypeError for unknown values instead of silently using the default.
+ */
+function serializeStyle(options, fn) {
+  const style = {};
+  for (const [key, allowed] of Object.entries(STYLE_OPTIONS)) {
+    const value = options?.[key];
+    if (value === undefined) continue;
+    if (!allowed.includes(value)) {
+      const expected = allowed.map((v) => JSON.stringify(v)).join(", ");
+      throw new TypeError(`${fn}: ${key} must be one of ${expected}`);
+    }
+    style[key] = value;
+  }
+  const printWidth = options?.printWidth;
+  if (printWidth !== undefined) {
+    if (!Number.isInteger(printWidth) || printWidth < 1) {
+      throw new TypeError(`${fn}: printWidth must be a positive integer`);
+    }
+    style.printWidth = printWidth;
+  }
+  return JSON.stringify(style);
 }
 
 /**
  * Normalize/serialize markdown source.
  * @param {string} source - Markdown source
- * @param {{ wikilinks?: boolean, autolink?: boolean }} [options] - Parser and renderer extensions
+ * @param {import('./api').MarkdownStyleOptions} [options] - Parser extensions and output style
  * @returns {string} Normalized markdown
  */
 export function toMarkdown(source, options = {}) {
-  return useWikilinks(options)
-    ? md_to_markdown_with_wikilinks(source)
-    : md_to_markdown(source);
+  return md_to_markdown_with_style(
+    source,
+    optionFlags(options),
+    serializeStyle(options, "toMarkdown"),
+  );
+}
+
+function assertRoot(root, fn) {
+  if (root === null || typeof root !== "object" || root.type !== "root") {
+    throw new TypeError(`${fn}: expected an mdast Root node`);
+  }
+}
+
+/**
+ * Render an mdast tree (as returned by `parse`, possibly transformed) to HTML.
+ * @param {import('mdast').Root} root - mdast root
+ * @param {import('./api').MarkdownOptions} [options] - Renderer options (`autolink`)
+ * @returns {string} HTML output
+ */
+export function astToHtml(root, options = {}) {
+  assertRoot(root, "astToHtml");
+  return md_ast_to_html(JSON.stringify(root), optionFlags(options));
+}
+
+/**
+ * Serialize an mdast tree (as returned by `parse`, possibly transformed)
+ * to markdown.
+ * @param {import('mdast').Root} root - mdast root
+ * @param {import('./api').SerializeStyleOptions} [options] - Output style
+ * @returns {string} Markdown output
+ */
+export function astToMarkdown(root, options = {}) {
+  assertRoot(root, "astToMarkdown");
+  return md_ast_to_markdown_with_style(
+    JSON.stringify(root),
+    serializeStyle(options, "astToMarkdown"),
+  );
+}
+
+/**
+ * Read the YAML (`---`) or TOML (`+++`) frontmatter block at the start of
+ * `source` into typed values.
+ * @param {string} source - Markdown source
+ * @returns {import('./api').FrontmatterResult} Data, format, block span and body
+ */
+export function parseFrontmatter(source) {
+  const { data, format, span } = JSON.parse(md_parse_frontmatter(source));
+  return { data, format, span, body: span ? source.slice(span.end) : source };
+}
+
+/**
+ * Set or remove top-level frontmatter keys. Keys whose value is `undefined`
+ * are removed. Only the frontmatter block is rewritten; untouched entries,
+ * comments and the body keep their exact bytes.
+ * @param {string} source - Markdown source
+ * @param {Record<string, unknown>} patch - Keys to set (or remove)
+ * @returns {string} Updated source
+ */
+export function updateFrontmatter(source, patch) {
+  if (patch === null || typeof patch !== "object" || Array.isArray(patch)) {
+    throw new TypeError("updateFrontmatter: expected a patch object");
+  }
+  const set = {};
+  const remove = [];
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === undefined) {
+      remove.push(key);
+    } else {
+      set[key] = value;
+    }
+  }
+  return md_update_frontmatter(source, JSON.stringify({ set, remove }));
 }
 
 /**
@@ -94,22 +476,395 @@ export function toMarkdown(source, options = {}) {
  * every glyph lines up.
  *
  * @param {string} source - Markdown source
- * @param {{ wikilinks?: boolean }} [options] - Parser extensions
+ * @param {{ wikilinks?: boolean, strict?: boolean }} [options] - Parser extensions
  * @returns {string} HTML
  */
 /** Bit flags accepted by the literal renderer FFI export. */
 const LITERAL_WIKILINKS = 1;
 const LITERAL_POSITIONS = 2;
 const LITERAL_IMAGE_PREVIEW = 4;
+const LITERAL_STRICT = 8;
+const LITERAL_HEADING_IDS = 16;
+const LITERAL_MATH = 32;
+const LITERAL_ALERTS = 64;
+const LITERAL_DIRECTIVES = 128;
 
 export function toHtmlLiteral(source, options = {}) {
   let flags = 0;
   if (useWikilinks(options)) flags |= LITERAL_WIKILINKS;
   if (options?.positions === true) flags |= LITERAL_POSITIONS;
   if (options?.imagePreview === true) flags |= LITERAL_IMAGE_PREVIEW;
+  if (useStrict(options)) flags |= LITERAL_STRICT;
+  if (options?.headingIds === true) flags |= LITERAL_HEADING_IDS;
+  if (options?.math === true) flags |= LITERAL_MATH;
+  if (options?.alerts === true) flags |= LITERAL_ALERTS;
+  if (options?.directives === true) flags |= LITERAL_DIRECTIVES;
+  const { resolveWikiLink, transformUrl } = renderHooks(options);
+  if (resolveWikiLink || transformUrl) {
+    const resolve = resolveWikiLink && wikiLinkResolver(resolveWikiLink, "toHtmlLiteral");
+    const transform = transformUrl && urlTransformer(transformUrl, "toHtmlLiteral");
+    return md_to_html_literal_with_hooks(
+      source,
+      flags,
+      wikiLinkHook(resolve),
+      (url, kind) => transform?.(url, kind) ?? url,
+    );
+  }
   return md_to_html_literal(source, flags);
 }
 
+/**
+ * Extract the table of contents: headings nested under the closest
+ * preceding shallower heading, with GitHub-style slugs that match the ids
+ * rendered by `headingIds: true`.
+ * @param {string} source - Markdown source
+ * @param {import('./api').TocOptions} [options] - Depth range and parser extensions
+ * @returns {import('./api').TocEntry[]} Top-level entries
+ */
+export function toc(source, options = {}) {
+  const minDepth = options?.minDepth ?? 1;
+  const maxDepth = options?.maxDepth ?? 6;
+  return JSON.parse(md_toc(source, optionFlags(options), minDepth, maxDepth));
+}
+
+/**
+ * Split a document into heading-delimited chunks for search indexes. Each
+ * chunk has the path of enclosing heading texts, the section's plain text,
+ * its heading slug and its source span. Sections longer than `maxChars`
+ * are split between top-level blocks.
+ * @param {string} source - Markdown source
+ * @param {import('./api').ChunkOptions} [options] - Chunk size, depth and parser extensions
+ * @returns {import('./api').SectionChunk[]} Chunks in document order
+ */
+export function chunkBySections(source, options = {}) {
+  const maxChars = options?.maxChars;
+  if (maxChars !== undefined && (!Number.isInteger(maxChars) || maxChars < 1)) {
+    throw new TypeError("chunkBySections: maxChars must be a positive integer");
+  }
+  const minDepth = options?.minDepth ?? 1;
+  return JSON.parse(md_chunk_sections(source, optionFlags(options), maxChars ?? 0, minDepth));
+}
+
+/** Bit flags accepted by the plain text FFI export. */
+const TEXT_PRESERVE_LINE_BREAKS = 1;
+const TEXT_INCLUDE_CODE = 2;
+const TEXT_INCLUDE_ALT = 4;
+
+/**
+ * Extract the plain text of a document, with markup stripped but link
+ * text and image alt text kept, and its word count, character count and
+ * reading time.
+ * @param {string} source - Markdown source
+ * @param {import('./api').TextOptions} [options] - What to keep and parser extensions
+ * @returns {import('./api').TextResult} Text and statistics
+ */
+export function toText(source, options = {}) {
+  let textFlags = 0;
+  if (options?.preserveLineBreaks === true) textFlags |= TEXT_PRESERVE_LINE_BREAKS;
+  if (options?.includeCode !== false) textFlags |= TEXT_INCLUDE_CODE;
+  if (options?.includeAlt !== false) textFlags |= TEXT_INCLUDE_ALT;
+  return JSON.parse(md_to_text(source, optionFlags(options), textFlags));
+}
+
+/** Lint rule ids, all enabled by default. */
+const LINT_RULES = new Set([
+  "heading-increment",
+  "no-duplicate-headings",
+  "no-undefined-references",
+  "no-unused-definitions",
+  "no-undefined-footnotes",
+  "no-empty-links",
+  "no-missing-alt",
+  "no-bare-urls",
+]);
+
+const LINT_SEVERITIES = new Set(["off", "warning", "error"]);
+
+/**
+ * Lint a document. Each diagnostic has its rule id, severity, message and
+ * source offsets; `fix`, when present, is a text edit for `applyFixes`.
+ * `rules` turns rules off or overrides their severity.
+ * @param {string} source - Markdown source
+ * @param {import('./api').LintOptions} [options] - Rule settings and parser extensions
+ * @returns {import('./api').LintDiagnostic[]} Diagnostics in source order
+ */
+export function lint(source, options = {}) {
+  const rules = options?.rules ?? {};
+  for (const [rule, setting] of Object.entries(rules)) {
+    if (!LINT_RULES.has(rule)) {
+      throw new TypeError(`lint: unknown rule "${rule}"`);
+    }
+    if (!LINT_SEVERITIES.has(setting)) {
+      throw new TypeError(`lint: rule "${rule}" must be "off", "warning" or "error"`);
+    }
+  }
+  const diagnostics = JSON.parse(md_lint(source, optionFlags(options)));
+  return diagnostics.flatMap((diagnostic) => {
+    const setting = rules[diagnostic.ruleId];
+    if (setting === "off") return [];
+    return setting ? [{ ...diagnostic, severity: setting }] : [diagnostic];
+  });
+}
+
+/**
+ * Apply the fixes of lint diagnostics to the source they were reported
+ * for. A fix overlapping one earlier in the source is skipped; lint the
+ * result again to pick it up.
+ * @param {string} source - Markdown source passed to `lint`
+ * @param {import('./api').LintDiagnostic[]} diagnostics - Diagnostics from `lint`
+ * @returns {string} Fixed source
+ */
+export function applyFixes(source, diagnostics) {
+  const fixes = diagnostics
+    .flatMap((diagnostic) => (diagnostic.fix ? [diagnostic.fix] : []))
+    .sort((a, b) => a.start - b.start || a.end - b.end);
+  let result = "";
+  let pos = 0;
+  for (const fix of fixes) {
+    if (fix.start < pos) continue;
+    result += source.slice(pos, fix.start) + fix.text;
+    pos = fix.end;
+  }
+  return result + source.slice(pos);
+}
+
+/**
+ * Normalize a link label the CommonMark way (trimmed, whitespace runs
+ * collapsed, case-folded), as used for the keys of `root.data.definitions`
+ * and the `identifier` of reference nodes.
+ * @param {string} label - Label as written, e.g. a `data-md-image-ref` value
+ * @returns {string} Normalized label
+ */
+export function normalizeLabel(label) {
+  return md_normalize_label(label);
+}
+
+// =============================================================================
+// Tree Queries
+// =============================================================================
+
+const SELECTOR_COMBINATORS = new Set([">", "+", "~"]);
+
+/**
+ * Parse a selector list into groups of steps. Each step is a compound
+ * selector (`type[attr op value]...`) with the combinator joining it to
+ * the previous step; the first step uses the descendant combinator.
+ */
+function parseSelector(selector, fn) {
+  const fail = (reason) => {
+    throw new TypeError(`${fn}: invalid selector "${selector}": ${reason}`);
+  };
+  if (typeof selector !== "string") fail("not a string");
+  let pos = 0;
+  const skipSpace = () => {
+    const start = pos;
+    while (pos < selector.length && /\s/.test(selector[pos])) pos++;
+    return pos > start;
+  };
+  const take = (pattern, what) => {
+    const match = pattern.exec(selector.slice(pos));
+    if (!match) fail(`expected ${what} at ${pos}`);
+    pos += match[0].length;
+    return match[0];
+  };
+  const value = () => {
+    const quote = selector[pos];
+    if (quote !== '"' && quote !== "'") return take(/^[^\]\s]+/, "a value");
+    const end = selector.indexOf(quote, pos + 1);
+    if (end < 0) fail("unterminated string");
+    const text = selector.slice(pos + 1, end);
+    pos = end + 1;
+    return text;
+  };
+  const compound = () => {
+    const start = pos;
+    let type;
+    if (selector[pos] === "*") pos++;
+    else if (/[A-Za-z]/.test(selector[pos] ?? "")) type = take(/^[A-Za-z]\w*/, "a type");
+    const attributes = [];
+    while (selector[pos] === "[") {
+      pos++;
+      skipSpace();
+      const key = take(/^[A-Za-z_][\w.]*/, "an attribute name");
+      skipSpace();
+      let op;
+      let expected;
+      if (selector[pos] !== "]") {
+        op = take(/^[\^$*]?=/, "an operator");
+        skipSpace();
+        expected = value();
+        skipSpace();
+      }
+      if (selector[pos] !== "]") fail(`expected "]" at ${pos}`);
+      pos++;
+      attributes.push({ key, op, expected });
+    }
+    if (pos === start) fail(`expected a node type at ${pos}`);
+    return { type, attributes };
+  };
+  const groups = [];
+  skipSpace();
+  for (;;) {
+    const steps = [{ combinator: " ", compound: compound() }];
+    for (;;) {
+      const spaced = skipSpace();
+      if (pos >= selector.length || selector[pos] === ",") break;
+      let combinator = " ";
+      if (SELECTOR_COMBINATORS.has(selector[pos])) {
+        combinator = selector[pos++];
+        skipSpace();
+      } else if (!spaced) {
+        fail(`unexpected "${selector[pos]}" at ${pos}`);
+      }
+      steps.push({ combinator, compound: compound() });
+    }
+    groups.push(steps);
+    if (pos >= selector.length) return groups;
+    pos++;
+    skipSpace();
+  }
+}
+
+/**
+ * Attribute values are compared as strings, so `[depth=2]` and
+ * `[ordered=true]` match numbers and booleans. Dotted names read nested
+ * fields (`[data.alert=note]`); `null` and missing fields never match.
+ */
+function matchesCompound(node, { type, attributes }) {
+  if (type !== undefined && node.type !== type) return false;
+  return attributes.every(({ key, op, expected }) => {
+    const actual = key.split(".").reduce((value, field) => value?.[field], node);
+    if (actual === undefined || actual === null) return false;
+    const text = String(actual);
+    switch (op) {
+      case undefined:
+        return true;
+      case "=":
+        return text === expected;
+      case "^=":
+        return text.startsWith(expected);
+      case "$=":
+        return text.endsWith(expected);
+      default:
+        return text.includes(expected);
+    }
+  });
+}
+
+/** Nodes reached from `node` through a combinator. */
+function combinedNodes(node, combinator, parents) {
+  if (combinator === " ") {
+    const descendants = [];
+    const walk = (parent) => {
+      for (const child of parent.children ?? []) {
+        descendants.push(child);
+        walk(child);
+      }
+    };
+    walk(node);
+    return descendants;
+  }
+  if (combinator === ">") return node.children ?? [];
+  const siblings = parents.get(node)?.children ?? [];
+  const index = siblings.indexOf(node);
+  return combinator === "+" ? siblings.slice(index + 1, index + 2) : siblings.slice(index + 1);
+}
+
+function querySelector(root, selector, fn) {
+  const groups = parseSelector(selector, fn);
+  const order = new Map();
+  const parents = new Map();
+  const walk = (node, parent) => {
+    order.set(node, order.size);
+    if (parent) parents.set(node, parent);
+    for (const child of node.children ?? []) walk(child, node);
+  };
+  walk(root, undefined);
+  const found = new Set();
+  for (const [first, ...rest] of groups) {
+    let current = [...order.keys()].filter((node) => matchesCompound(node, first.compound));
+    for (const { combinator, compound } of rest) {
+      const next = new Set();
+      for (const node of current) {
+        for (const candidate of combinedNodes(node, combinator, parents)) {
+          if (matchesCompound(candidate, compound)) next.add(candidate);
+        }
+      }
+      current = [...next];
+    }
+    for (const node of current) found.add(node);
+  }
+  return [...found].sort((a, b) => order.get(a) - order.get(b));
+}
+
+/**
+ * Find every node of a tree matching a CSS-like selector, in document
+ * order. Selectors combine node types (`*` for any), attribute tests
+ * (`[lang]`, `[depth=2]`, `[url^=https]`, `[url$=".png"]`, `[value*=x]`),
+ * the descendant, `>`, `+` and `~` combinators, and `,` lists. The root
+ * itself can match.
+ * @param {import('mdast').Nodes} root - Tree to search, e.g. from `parse`
+ * @param {string} selector - Selector such as `list[ordered=true] > listItem`
+ * @returns {import('mdast').Nodes[]} Matching nodes
+ */
+export function selectAll(root, selector) {
+  return querySelector(root, selector, "selectAll");
+}
+
+/**
+ * Find the first node of a tree, in document order, matching a selector
+ * (see `selectAll`).
+ * @param {import('mdast').Nodes} root - Tree to search, e.g. from `parse`
+ * @param {string} selector - Selector such as `heading[depth=2] + code`
+ * @returns {import('mdast').Nodes | undefined} First match
+ */
+export function select(root, selector) {
+  return querySelector(root, selector, "select")[0];
+}
+
+/** Returned by a `visit` visitor to leave the node's children unvisited. */
+export const SKIP = Symbol("skip");
+
+function visitTest(test) {
+  if (test === undefined || test === null) return () => true;
+  if (typeof test === "string") return (node) => node.type === test;
+  if (typeof test === "function") return test;
+  throw new TypeError("visit: test must be a node type, a predicate or null");
+}
+
+/**
+ * Walk a tree depth-first, calling `visitor(node, index, parent)` for
+ * every node passing `test` (a node type, a predicate, or null for all
+ * nodes). The visitor can return `SKIP` to leave the node's children out,
+ * or a node or array of nodes to replace it in its parent (an empty array
+ * removes it). Replacements are not visited.
+ * @param {import('mdast').Nodes} root - Tree to walk; replacements modify it in place
+ * @param {string | ((node: import('mdast').Nodes) => boolean) | null} test - Nodes to visit
+ * @param {Function} visitor - Called for each visited node
+ */
+export function visit(root, test, visitor) {
+  const matches = visitTest(test);
+  // Returns how many nodes now stand where `node` was
+  const walk = (node, index, parent) => {
+    if (matches(node)) {
+      const result = visitor(node, index, parent);
+      if (result === SKIP) return 1;
+      if (result !== undefined && result !== null) {
+        if (!parent) throw new TypeError("visit: the root cannot be replaced");
+        const replacement = Array.isArray(result) ? result : [result];
+        parent.children.splice(index, 1, ...replacement);
+        return replacement.length;
+      }
+    }
+    const children = node.children;
+    if (children) {
+      for (let i = 0; i < children.length; ) i += walk(children[i], i, node);
+    }
+    return 1;
+  };
+  walk(root, undefined, undefined);
+}
+
 // =============================================================================
 // Handle-based API (for incremental parsing)
 // =============================================================================
@@ -117,36 +872,135 @@ export function toHtmlLiteral(source, options = {}) {
 /**
  * Create a new document from markdown source.
  * @param {string} source - Markdown source
- * @param {{ wikilinks?: boolean, autolink?: boolean }} [options] - Parser and renderer extensions
+ * @param {import('./api').HtmlOptions} [options] - Parser and renderer extensions
  * @returns {import('./api').DocumentHandle} Document handle
  */
 export function createDocument(source, options = {}) {
-  const wikilinks = useWikilinks(options);
-  const autolink = useAutolink(options);
-  const handle = wikilinks
-    ? md_parse_with_source_with_wikilinks(source)
-    : md_parse_with_source(source);
+  const handle = md_parse_with_source_flags(source, optionFlags(options));
+  return wrapDocument(handle, source, options, { latest: 0 }, 0, null, null);
+}
+
+/**
+ * Move the positions of an mdast node and its descendants, in place, by
+ * `shift.offset` code units and `shift.line` lines. Only used for blocks
+ * after an edit, which start on a line of their own, so columns are
+ * unchanged.
+ */
+function shiftNode(node, shift) {
+  if (node.position) {
+    for (const point of [node.position.start, node.position.end]) {
+      point.line += shift.line;
+      point.offset += shift.offset;
+    }
+  }
+  if (node.children) {
+    for (const child of node.children) shiftNode(child, shift);
+  }
+}
+
+function countLines(text) {
+  let count = 0;
+  for (let i = text.indexOf("\n"); i !== -1; i = text.indexOf("\n", i + 1)) {
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Build the mdast root of an updated document from the previous root.
+ * Reused blocks are deep copies, so the two trees can be changed
+ * independently; those after the edit get shifted positions. Only
+ * re-parsed and inserted blocks are serialized from the native handle.
+ */
+function patchAst(previous, handle, changes, edit) {
+  const shift = {
+    offset: edit.newEnd - edit.oldEnd,
+    line:
+      countLines(edit.newSource.slice(edit.start, edit.newEnd)) -
+      countLines(edit.oldSource.slice(edit.start, edit.oldEnd)),
+  };
+  const children = [];
+  for (const { oldIndex, newIndex } of changes.reused) {
+    const node = structuredClone(previous.children[oldIndex]);
+    if (node.position.start.offset >= edit.oldEnd) shiftNode(node, shift);
+    children[newIndex] = node;
+  }
+  const fresh = [
+    ...changes.reparsed.map((pair) => pair.newIndex),
+    ...changes.inserted,
+  ];
+  const from = fresh.length > 0 ? Math.min(...fresh) : 0;
+  const to = fresh.length > 0 ? Math.max(...fresh) + 1 : 0;
+  const region = JSON.parse(md_get_ast_children(handle, from, to));
+  region.children.forEach((node, i) => {
+    children[from + i] = node;
+  });
+  return { type: "root", children, position: region.position, data: region.data };
+}
+
+/**
+ * Wrap a native handle. Every handle derived from one `createDocument` call
+ * shares `chain`, which records the newest version so that updating an
+ * older handle can be rejected instead of silently forking the history.
+ * `changes` is the native change report of the update that produced this
+ * version, and `previous` gives access to the prior version's AST and the
+ * edit between them.
+ */
+function wrapDocument(handle, source, options, chain, version, changes, previous) {
   let cachedAst = null;
+  let disposed = false;
+
+  function assertLive(method) {
+    if (disposed) {
+      throw new Error(
+        `DocumentHandle.${method}: document version ${version} has been disposed`
+      );
+    }
+  }
 
   return {
+    get version() {
+      return version;
+    },
+
+    get changes() {
+      return changes;
+    },
+
     get ast() {
+      assertLive("ast");
       if (cachedAst === null) {
-        cachedAst = parse(source, options);
+        const base = previous?.ast();
+        cachedAst = base
+          ? patchAst(base, handle, changes, previous.edit)
+          : JSON.parse(md_get_ast(handle));
+        previous = null;
       }
       return cachedAst;
     },
 
     toHtml() {
-      return autolink
-        ? md_render_html_with_autolink(handle)
-        : md_render_html_without_autolink(handle);
+      assertLive("toHtml");
+      // The hooks only run while toHtml renders, so that path parses again
+      if (Object.values(renderHooks(options)).some(Boolean)) {
+        return toHtml(source, options);
+      }
+      return md_render_html_with_flags(handle, optionFlags(options));
     },
 
     toMarkdown() {
+      assertLive("toMarkdown");
       return md_serialize(handle);
     },
 
     update(newSource, edit) {
+      assertLive("update");
+      if (chain.latest !== version) {
+        throw new Error(
+          `DocumentHandle.update: document version ${version} is stale; ` +
+            `update the latest version (${chain.latest}) instead`
+        );
+      }
       const newHandle = md_parse_incremental(
         handle,
         newSource,
@@ -157,32 +1011,192 @@ export function createDocument(source, options = {}) {
       if (newHandle === 0) {
         throw new Error("Incremental parse failed");
       }
-      // Return a new document handle
-      let newCachedAst = null;
-      return {
-        get ast() {
-          if (newCachedAst === null) {
-            newCachedAst = parse(newSource, options);
-          }
-          return newCachedAst;
-        },
-        toHtml: () =>
-          autolink
-            ? md_render_html_with_autolink(newHandle)
-            : md_render_html_without_autolink(newHandle),
-        toMarkdown: () => md_serialize(newHandle),
-        update: (s, e) => createDocument(s, options).update(s, e), // Simplified
-        dispose: () => md_free(newHandle),
-      };
+      chain.latest = version + 1;
+      // The next version patches this version's AST if it has been built
+      // by the time the next AST is read.
+      return wrapDocument(
+        newHandle,
+        newSource,
+        options,
+        chain,
+        version + 1,
+        JSON.parse(md_get_changes(newHandle)),
+        {
+          ast: () => cachedAst,
+          edit: { ...edit, oldSource: source, newSource },
+        }
+      );
     },
 
     dispose() {
+      if (disposed) return;
+      disposed = true;
       md_free(handle);
       cachedAst = null;
     },
   };
 }
 
+// =============================================================================
+// Streaming API
+// =============================================================================
+
+/**
+ * Index of the next run of exactly `run` backticks at or after `from`,
+ * or -1.
+ */
+function findBacktickRun(line, run, from) {
+  for (let i = line.indexOf(run, from); i !== -1; i = line.indexOf(run, i + 1)) {
+    if (line[i - 1] !== "`" && line[i + run.length] !== "`") return i;
+  }
+  return -1;
+}
+
+function closeInlineStack(text, stack) {
+  if (stack.length === 0) return text;
+  return text.trimEnd() + stack.reverse().join("");
+}
+
+/**
+ * Finish inline syntax left open at the end of a partial line, so the
+ * provisional render doesn't flip between literal markers and formatting
+ * as text arrives: unclosed code spans and `*`, `_` and `~~` emphasis get
+ * closing markers, and a marker run with nothing after it yet is dropped.
+ */
+function closeOpenInline(line) {
+  const stack = [];
+  let i = 0;
+  while (i < line.length) {
+    const c = line[i];
+    if (c === "\\") {
+      i += 2;
+      continue;
+    }
+    let n = 1;
+    while (line[i + n] === c) n++;
+    const run = line.slice(i, i + n);
+    if (c === "`") {
+      const close = findBacktickRun(line, run, i + n);
+      if (close === -1) {
+        const text = i + n < line.length ? line + run : line.slice(0, i);
+        return closeInlineStack(text, stack);
+      }
+      i = close + n;
+      continue;
+    }
+    if (c === "*" || c === "_" || (c === "~" && n === 2)) {
+      const before = line[i - 1];
+      const after = line[i + n];
+      const canClose = before !== undefined && !/\s/.test(before);
+      if (canClose && stack.at(-1) === run) {
+        stack.pop();
+      } else if (after === undefined) {
+        return closeInlineStack(line.slice(0, i), stack);
+      } else if (
+        !/\s/.test(after) &&
+        (c !== "_" || before === undefined || !/[\p{L}\p{N}]/u.test(before))
+      ) {
+        stack.push(run);
+      }
+    }
+    i += n;
+  }
+  return closeInlineStack(line, stack);
+}
+
+/**
+ * Source for the provisional render of the trailing block: its last line
+ * with open inline syntax closed. Code blocks are left alone since they
+ * already render sensibly while open.
+ */
+function provisionalSource(tail) {
+  if (/^(?: {0,3}(?:```|~~~)| {4}|\t)/.test(tail)) return tail;
+  const lineStart = tail.lastIndexOf("\n") + 1;
+  return tail.slice(0, lineStart) + closeOpenInline(tail.slice(lineStart));
+}
+
+/**
+ * Create a renderer for markdown that arrives in chunks (e.g. streamed LLM
+ * output). Blocks followed by another block can no longer change, so they
+ * are rendered once; each push only parses the text after them, from the
+ * start of the trailing block.
+ * @param {import('./api').MarkdownOptions} [options] - Parser and renderer extensions
+ * @returns {import('./api').StreamRenderer}
+ */
+export function createStreamRenderer(options = {}) {
+  for (const option of ["headingIds", "positions"]) {
+    if (options?.[option] === true) {
+      throw new TypeError(`createStreamRenderer: the ${option} option is not supported`);
+    }
+  }
+  const flags = optionFlags(options);
+  let source = "";
+  let finalized = "";
+  // Offset in `source` of the first block not yet in `finalized`
+  let tailStart = 0;
+  // Native handle of the parsed tail, freed by the next push or `finish`,
+  // and the mdast index of its first block not yet in `finalized`
+  let handle = 0;
+  let pending = 0;
+  let finished = false;
+
+  function assertOpen(method) {
+    if (finished) {
+      throw new Error(`StreamRenderer.${method}: the stream has finished`);
+    }
+  }
+
+  // Parse `source` from `tailStart` on its own. Past the first block the
+  // tail is preceded by a newline, which the parser keeps as blank lines,
+  // so text like `---` at its start is never taken for frontmatter.
+  // Returns the tail's blocks with offsets into `source`.
+  function parseTail() {
+    const prefix = tailStart > 0 ? "\n" : "";
+    if (handle !== 0) md_free(handle);
+    handle = md_parse_with_source_flags(prefix + source.slice(tailStart), flags);
+    pending = 0;
+    const shift = tailStart - prefix.length;
+    return JSON.parse(md_get_block_spans(handle, 0)).map((block) => ({
+      index: block.index,
+      start: block.start + shift,
+    }));
+  }
+
+  return {
+    get source() {
+      return source;
+    },
+
+    push(chunk) {
+      assertOpen("push");
+      source += chunk;
+      const blocks = parseTail();
+      const last = blocks.at(-1);
+      let delta = "";
+      if (blocks.length > 1) {
+        delta = md_render_children_html(handle, 0, last.index, flags);
+        finalized += delta;
+        tailStart = last.start;
+        pending = last.index;
+      }
+      const provisional = last
+        ? md_to_html_with_flags(provisionalSource(source.slice(last.start)), flags)
+        : "";
+      return { finalized, delta, provisional };
+    },
+
+    finish() {
+      assertOpen("finish");
+      finished = true;
+      if (handle === 0) parseTail();
+      // End index past any block (the export takes a 32-bit Int)
+      finalized += md_render_children_html(handle, pending, 0x7fffffff, flags);
+      md_free(handle);
+      return finalized;
+    },
+  };
+}
+
 // =============================================================================
 // Edit helpers
 // =============================================================================
@@ -2,9 +2,25 @@ import { describe, it, expect } from "vitest";
 import {
   parse,
   toHtml,
+  toHtmlAsync,
   toHtmlLiteral,
   toMarkdown,
+  toc,
+  chunkBySections,
+  toText,
+  lint,
+  applyFixes,
+  select,
+  selectAll,
+  visit,
+  SKIP,
+  normalizeLabel,
+  astToHtml,
+  astToMarkdown,
+  parseFrontmatter,
+  updateFrontmatter,
   createDocument,
+  createStreamRenderer,
   insertEdit,
   deleteEdit,
   replaceEdit,
@@ -39,6 +55,129 @@ describe("parse", () => {
       data: { label: "MoonBit syntax", fragment: "syntax" },
     });
   });
+
+  it("attaches unist positions with line, column and offset", () => {
+    const ast = parse("# Hi\n\n> a *b*\n");
+    const [heading, blockquote] = ast.children;
+    expect(heading.position).toEqual({
+      start: { line: 1, column: 1, offset: 0 },
+      end: { line: 1, column: 5, offset: 4 },
+    });
+    expect(blockquote.position.start).toEqual({ line: 3, column: 1, offset: 6 });
+
+    // Nested nodes resolve to absolute source offsets, past the `> ` prefix.
+    const paragraph = blockquote.children[0];
+    expect(paragraph.position.start).toEqual({ line: 3, column: 3, offset: 8 });
+    const emphasis = paragraph.children[1];
+    expect(emphasis.type).toBe("emphasis");
+    expect(emphasis.position).toEqual({
+      start: { line: 3, column: 5, offset: 10 },
+      end: { line: 3, column: 8, offset: 13 },
+    });
+  });
+
+  it("positions list item and table cell content", () => {
+    const source = "- [x] done\n\n| a | b |\n| - | - |\n| 1 | 2 |\n";
+    const ast = parse(source);
+    const [list, table] = ast.children;
+    const text = list.children[0].children[0].children[0];
+    expect(source.slice(text.position.start.offset, text.position.end.offset)).toBe("done");
+
+    const cell = table.children[1].children[1];
+    expect(cell.position.start).toEqual({ line: 5, column: 7, offset: 38 });
+    expect(source.slice(cell.position.start.offset, cell.position.end.offset)).toBe("2");
+  });
+
+  it("returns link reference definitions by normalized label", () => {
+    const ast = parse(
+      '[Foo  Bar]: /one "One"\n[foo bar]: /two\n\n> [img]: <a b.png>\n',
+    );
+    expect(ast.data.definitions).toEqual({
+      "foo bar": { url: "/one", title: "One" },
+      img: { url: "a b.png", title: null },
+    });
+    expect(parse("text").data.definitions).toEqual({});
+  });
+
+  it("resolves reference nodes when asked", () => {
+    const source = "[Text][FOO] [Foo][] ![pic][Nope]\n\n[foo]: /url 'T'\n";
+    const [ref, , collapsed, , image] = parse(source, {
+      resolveReferences: true,
+    }).children[0].children;
+    expect(ref).toMatchObject({
+      type: "linkReference",
+      identifier: "foo",
+      label: "FOO",
+      referenceType: "full",
+      url: "/url",
+      title: "T",
+    });
+    expect(collapsed).toMatchObject({
+      identifier: "foo",
+      label: "Foo",
+      referenceType: "collapsed",
+      url: "/url",
+    });
+    expect(image).toMatchObject({
+      type: "imageReference",
+      identifier: "nope",
+      url: null,
+      title: null,
+      data: { undefinedReference: true },
+    });
+    expect(parse(source).children[0].children[0].url).toBeUndefined();
+  });
+
+  it("rewrites URLs with transformUrl", () => {
+    const source = "[a](/a) <https://c.test> ![b](b.png) [r][d] [[W#x]]\n\n[d]: /def\n";
+    const seen = [];
+    const root = parse(source, {
+      wikilinks: true,
+      resolveReferences: true,
+      transformUrl: (url, { kind }) => {
+        seen.push(kind);
+        return kind === "autolink" ? null : `${kind}:${url}`;
+      },
+    });
+    const [link, , autolink, , image, , ref, , wikiLink] = root.children[0].children;
+    expect(link.url).toBe("link:/a");
+    expect(autolink.url).toBe("https://c.test");
+    expect(image.url).toBe("image:b.png");
+    expect(ref.url).toBe("definition:/def");
+    expect(wikiLink.data.href).toBe("wikilink:W#x");
+    expect(root.data.definitions.d.url).toBe("definition:/def");
+    expect(seen).toContain("autolink");
+  });
+
+  it("passes the autolink kind for <url> and bare URLs", () => {
+    const source = "<https://a.test> [b](/b) https://c.test\n";
+    const seen = [];
+    const root = parse(source, {
+      transformUrl: (url, { kind }) => {
+        seen.push([kind, url]);
+      },
+    });
+    expect(root.children[0].children[0].data).toEqual({ autolink: true });
+    expect(seen).toEqual([
+      ["autolink", "https://a.test"],
+      ["link", "/b"],
+    ]);
+    const kinds = [];
+    toHtml(source, {
+      transformUrl: (url, { kind }) => {
+        kinds.push([kind, url]);
+      },
+    });
+    expect(kinds).toEqual([
+      ["autolink", "https://a.test"],
+      ["link", "/b"],
+      ["autolink", "https://c.test"],
+    ]);
+  });
+
+  it("normalizes labels like definitions are keyed", () => {
+    expect(normalizeLabel("  Foo\t\n  BAR ")).toBe("foo bar");
+  });
 });
 
 describe("toHtml", () => {
@@ -59,6 +198,46 @@ describe("toHtml", () => {
     );
   });
 
+  it("resolves wikilinks with resolveWikiLink", () => {
+    const resolveWikiLink = (target, fragment) =>
+      target === "Home"
+        ? { href: `/home${fragment ? `#${fragment}` : ""}`, exists: true }
+        : target === "Nowhere"
+          ? { href: "/nowhere", exists: false, title: "Not written" }
+          : null;
+    const source = "[[Home#intro|start]] [[Nowhere]] [[Skip]]\n";
+    expect(toHtml(source, { wikilinks: true, resolveWikiLink })).toBe(
+      '<p><a href="/home#intro">start</a> <a href="/nowhere" class="wikilink-missing" title="Not written">Nowhere</a> <a href="Skip">Skip</a></p>\n'
+    );
+    expect(toHtmlLiteral(source, { wikilinks: true, resolveWikiLink })).toContain(
+      '<a class="md-wikilink wikilink-missing" href="/nowhere" title="Not written">'
+    );
+    const link = parse(source, { wikilinks: true, resolveWikiLink }).children[0]
+      .children[2];
+    expect(link.data).toMatchObject({ href: "/nowhere", exists: false });
+  });
+
+  it("rewrites href and src attributes with transformUrl", () => {
+    const transformUrl = (url, { kind }) =>
+      kind === "image" ? `https://cdn.test/${url}` : kind === "link" ? `/docs${url}` : null;
+    const source = "[Guide](/guide) ![logo](logo.png) <https://x.test>\n";
+    expect(toHtml(source, { transformUrl })).toBe(
+      '<p><a href="/docs/guide">Guide</a> <img src="https://cdn.test/logo.png" alt="logo"> <a href="https://x.test">https://x.test</a></p>\n'
+    );
+    const literal = toHtmlLiteral(source, { transformUrl, imagePreview: true });
+    expect(literal).toContain('<a href="/docs/guide">');
+    expect(literal).toContain('src="https://cdn.test/logo.png"');
+    expect(literal).toContain("](/guide)");
+    expect(() => toHtml(source, { transformUrl: async (url) => url })).toThrow(TypeError);
+  });
+
+  it("rejects async wikilink resolvers", () => {
+    const resolveWikiLink = async () => ({ href: "/x", exists: true });
+    expect(() =>
+      toHtml("[[Home]]", { wikilinks: true, resolveWikiLink })
+    ).toThrow(TypeError);
+  });
+
   it("renders bare URL text as links by default", () => {
     expect(toHtml("Read https://example.com/docs.\n")).toBe(
       '<p>Read <a href="https://example.com/docs">https://example.com/docs</a>.</p>\n'
@@ -85,6 +264,18 @@ describe("toHtml", () => {
     ).toBe('<p><a href="MoonBit">MoonBit notes</a> https://example.com/docs</p>\n');
   });
 
+  it("uses CommonMark emphasis rules in strict mode", () => {
+    const source = "*(**foo**)*\n";
+    expect(toHtml(source, { strict: true })).toBe(
+      "<p><em>(<strong>foo</strong>)</em></p>\n"
+    );
+    expect(parse(source, { strict: true }).children[0].children[0].type).toBe(
+      "emphasis"
+    );
+    expect(toHtmlLiteral(source, { strict: true })).toContain("<em>");
+    expect(toMarkdown(source, { strict: true })).toBe("*(**foo**)*\n");
+  });
+
   it("renders a bullet list directly followed by a thematic break", () => {
     const source = "- a\n- m\n---------------\n";
     expect(parse(source).children.map((node) => node.type)).toEqual([
@@ -95,6 +286,252 @@ describe("toHtml", () => {
   });
 });
 
+describe("highlight option", () => {
+  const source = "```ts title=a.ts\nlet x\n```\n\n```\nplain\n```\n";
+
+  it("replaces code blocks with highlighter output", () => {
+    const calls = [];
+    const html = toHtml(source, {
+      highlight: (code, info) => {
+        calls.push([code, info]);
+        return info.lang ? `<pre class="hl">${info.lang}</pre>` : null;
+      },
+    });
+    expect(calls).toEqual([
+      ["let x\n", { lang: "ts", meta: "title=a.ts" }],
+      ["plain\n", { lang: null, meta: null }],
+    ]);
+    expect(html).toBe('<pre class="hl">ts</pre>\n<pre><code>plain\n</code></pre>\n');
+  });
+
+  it("rejects async highlighters in toHtml", () => {
+    expect(() =>
+      toHtml(source, { highlight: async () => "<pre></pre>" })
+    ).toThrow(/toHtmlAsync/);
+  });
+
+  it("awaits async highlighters in toHtmlAsync", async () => {
+    const html = await toHtmlAsync(source, {
+      highlight: async (code, { lang }) =>
+        lang ? `<pre class="hl">${code.trim()}</pre>` : undefined,
+    });
+    expect(html).toBe('<pre class="hl">let x</pre>\n<pre><code>plain\n</code></pre>\n');
+    expect(await toHtmlAsync("# Hi")).toBe(toHtml("# Hi"));
+  });
+});
+
+describe("math option", () => {
+  const source = "Area $\\pi r^2$\n\n$$\nx < y\n$$\n";
+
+  it("parses math only when enabled", () => {
+    expect(parse(source).children[0].children).toHaveLength(1);
+    const ast = parse(source, { math: true });
+    expect(ast.children[0].children[1]).toMatchObject({ type: "inlineMath", value: "\\pi r^2" });
+    expect(ast.children[1]).toMatchObject({ type: "math", meta: null, value: "x < y" });
+    expect(toMarkdown(source, { math: true })).toBe(source);
+  });
+
+  it("renders math elements and the renderMath hook", () => {
+    expect(toHtml(source, { math: true })).toBe(
+      '<p>Area <span class="math-inline">\\pi r^2</span></p>\n' +
+        '<div class="math-display">x &lt; y</div>\n'
+    );
+    const calls = [];
+    const html = toHtml(source, {
+      math: true,
+      renderMath: (value, info) => {
+        calls.push([value, info]);
+        return info.display ? "<math display=\"block\"></math>" : null;
+      },
+    });
+    expect(calls).toEqual([
+      ["\\pi r^2", { display: false }],
+      ["x < y", { display: true }],
+    ]);
+    expect(html).toContain('<div class="math-display"><math display="block"></math></div>');
+    expect(() => toHtml(source, { math: true, renderMath: async () => "" })).toThrow(
+      /toHtmlAsync/
+    );
+  });
+
+  it("awaits async renderMath in toHtmlAsync", async () => {
+    const html = await toHtmlAsync(source, {
+      math: true,
+      renderMath: async (value) => `<i>${value.length}</i>`,
+    });
+    expect(html).toBe(
+      '<p>Area <span class="math-inline"><i>7</i></span></p>\n' +
+        '<div class="math-display"><i>5</i></div>\n'
+    );
+  });
+
+  it("keeps dollar markers in toHtmlLiteral", () => {
+    const html = toHtmlLiteral(source, { math: true });
+    expect(html).toContain(
+      '<span class="math-inline"><span class="md-marker" aria-hidden="true">$</span>'
+    );
+    expect(html).toContain('<div class="md-math"><span class="md-marker" aria-hidden="true">$$</span>');
+  });
+});
+
+describe("alerts option", () => {
+  const source = "> [!WARNING]\n> Mind the *gap*\n";
+
+  it("parses alerts only when enabled", () => {
+    expect(parse(source).children[0].data).toBeUndefined();
+    const ast = parse(source, { alerts: true });
+    expect(ast.children[0]).toMatchObject({ type: "blockquote", data: { alert: "warning" } });
+    expect(ast.children[0].children).toHaveLength(1);
+    expect(ast.children[0].children[0].position.start.offset).toBe(15);
+    expect(toMarkdown(source, { alerts: true })).toBe(source);
+    expect(astToMarkdown(ast)).toBe(source);
+  });
+
+  it("renders GitHub's alert markup", () => {
+    expect(toHtml(source, { alerts: true })).toBe(
+      '<div class="markdown-alert markdown-alert-warning">\n' +
+        '<p class="markdown-alert-title">Warning</p>\n' +
+        "<p>Mind the <em>gap</em></p>\n</div>\n"
+    );
+    expect(toHtmlLiteral(source, { alerts: true })).toContain(
+      '<blockquote class="md-alert md-alert-warning">'
+    );
+  });
+});
+
+describe("directives option", () => {
+  const source =
+    ':::note[Heads *up*]{#n .wide}\nSee :kbd[Ctrl]{.key}.\n:::\n\n::video{src="a.mp4"}\n';
+
+  it("parses remark-directive nodes only when enabled", () => {
+    expect(parse(source).children[0].type).toBe("paragraph");
+    const ast = parse(source, { directives: true });
+    const [note, video] = ast.children;
+    expect(note).toMatchObject({
+      type: "containerDirective",
+      name: "note",
+      attributes: { id: "n", class: "wide" },
+    });
+    const [label, body] = note.children;
+    expect(label).toMatchObject({ type: "paragraph", data: { directiveLabel: true } });
+    expect(label.children[0].position.start.offset).toBe(8);
+    const kbd = body.children[1];
+    expect(kbd).toMatchObject({ type: "textDirective", name: "kbd", attributes: { class: "key" } });
+    expect(kbd.children[0].position.start.offset).toBe(source.indexOf("Ctrl"));
+    expect(video).toMatchObject({
+      type: "leafDirective",
+      name: "video",
+      attributes: { src: "a.mp4" },
+      children: [],
+    });
+    expect(toMarkdown(source, { directives: true })).toBe(source);
+    expect(astToMarkdown(ast)).toBe(source);
+  });
+
+  it("renders directives with directiveHandlers", () => {
+    expect(toHtml(source, { directives: true })).toBe(
+      '<div data-directive="note">\n<p>See <span data-directive="kbd">Ctrl</span>.</p>\n</div>\n' +
+        '<div data-directive="video"></div>\n'
+    );
+    const directiveHandlers = {
+      note: ({ label, content, attributes }) =>
+        `<aside id="${attributes.id}"><h4>${label}</h4>${content}</aside>`,
+      kbd: ({ type, label }) => (type === "textDirective" ? `<kbd>${label}</kbd>` : null),
+    };
+    const expected =
+      '<aside id="n"><h4>Heads <em>up</em></h4><p>See <kbd>Ctrl</kbd>.</p>\n</aside>\n' +
+      '<div data-directive="video"></div>\n';
+    expect(toHtml(source, { directives: true, directiveHandlers })).toBe(expected);
+    return expect(toHtmlAsync(source, { directives: true, directiveHandlers })).resolves.toBe(
+      expected
+    );
+  });
+
+  it("calls synchronous hooks once per node in toHtmlAsync", async () => {
+    const calls = [];
+    const html = await toHtmlAsync(`${source}\n[[Home]] [a](/a)\n`, {
+      directives: true,
+      wikilinks: true,
+      directiveHandlers: {
+        kbd: ({ label }) => {
+          calls.push(`kbd:${label}`);
+          return `<kbd>${label}</kbd>`;
+        },
+      },
+      resolveWikiLink: (target) => {
+        calls.push(`wikilink:${target}`);
+        return { href: `/${target}` };
+      },
+      transformUrl: (url, { kind }) => {
+        calls.push(`${kind}:${url}`);
+      },
+    });
+    expect(calls).toEqual(["kbd:Ctrl", "wikilink:Home", "wikilink:/Home", "link:/a"]);
+    expect(html).toContain('<a href="/Home">Home</a> <a href="/a">a</a>');
+  });
+
+  it("calls a directive handler again when its code is highlighted", async () => {
+    const contents = [];
+    const html = await toHtmlAsync(":::note\n```js\nx\n```\n:::\n", {
+      directives: true,
+      directiveHandlers: {
+        note: ({ content }) => {
+          contents.push(content);
+          return `<aside>${content}</aside>`;
+        },
+      },
+      highlight: async (code) => `<pre class="hl">${code}</pre>`,
+    });
+    expect(contents).toEqual([
+      '<pre><code class="language-js">x\n</code></pre>\n',
+      '<pre class="hl">x\n</pre>\n',
+    ]);
+    expect(html).toBe('<aside><pre class="hl">x\n</pre>\n</aside>\n');
+  });
+
+  it("rejects async directive handlers", () => {
+    expect(() =>
+      toHtml(source, { directives: true, directiveHandlers: { video: async () => "" } })
+    ).toThrow(TypeError);
+  });
+});
+
+describe("positions option", () => {
+  const sourceOf = (source, html, tag) => {
+    const match = html.match(
+      new RegExp(`<${tag}[^>]* data-src-start="(\\d+)" data-src-end="(\\d+)"`)
+    );
+    return match && source.slice(Number(match[1]), Number(match[2]));
+  };
+
+  it("annotates blocks and inlines with source offsets", () => {
+    expect(toHtml("Hi *there*\n", { positions: true })).toBe(
+      '<p data-src-start="0" data-src-end="10">Hi <em data-src-start="3" data-src-end="10">there</em></p>\n'
+    );
+    expect(toHtml("Hi *there*\n")).not.toContain("data-src-start");
+  });
+
+  it("uses absolute UTF-16 offsets inside containers", () => {
+    const source = "# Title\n\n> - a **b** 😀 `c`\n";
+    const html = toHtml(source, { positions: true });
+    expect(sourceOf(source, html, "h1")).toBe("# Title");
+    expect(sourceOf(source, html, "blockquote")).toBe("> - a **b** 😀 `c`");
+    expect(sourceOf(source, html, "strong")).toBe("**b**");
+    expect(sourceOf(source, html, "code")).toBe("`c`");
+  });
+
+  it("annotates table cells, links and images", () => {
+    const source = "| [x *y*](/u) | ![i](/i.png) |\n|---|---|\n| `z` | w |\n";
+    const html = toHtml(source, { positions: true });
+    expect(sourceOf(source, html, "table")).toBe(source.trimEnd());
+    expect(sourceOf(source, html, "th")).toBe("[x *y*](/u)");
+    expect(sourceOf(source, html, "a")).toBe("[x *y*](/u)");
+    expect(sourceOf(source, html, "em")).toBe("*y*");
+    expect(sourceOf(source, html, "img")).toBe("![i](/i.png)");
+    expect(sourceOf(source, html, "td")).toBe("`z`");
+  });
+});
+
 describe("toHtmlLiteral", () => {
   it("preserves a thematic break marker after a bullet list", () => {
     const html = toHtmlLiteral("- a\n- m\n---------------\n");
@@ -105,6 +542,274 @@ describe("toHtmlLiteral", () => {
   });
 });
 
+describe("toc / headingIds", () => {
+  const source =
+    "# Guide\n\n## Install `pkg`\n\n### From npm\n\n## Usage\n\n> ## Usage\n\n#### Deep\n";
+
+  it("builds a nested heading tree", () => {
+    const entries = toc(source);
+    expect(entries).toHaveLength(1);
+    const [guide] = entries;
+    expect(guide).toMatchObject({ depth: 1, text: "Guide", slug: "guide" });
+    expect(guide.children.map((entry) => entry.slug)).toEqual([
+      "install-pkg",
+      "usage",
+      "usage-1",
+    ]);
+    expect(guide.children[0].children[0]).toMatchObject({
+      depth: 3,
+      text: "From npm",
+      slug: "from-npm",
+    });
+    expect(guide.children[2].children[0].slug).toBe("deep");
+    const { start, end } = guide.children[0].span;
+    expect(source.slice(start, end)).toBe("## Install `pkg`");
+  });
+
+  it("filters by depth without renumbering slugs", () => {
+    const entries = toc(source, { minDepth: 2, maxDepth: 2 });
+    expect(entries.map((entry) => entry.slug)).toEqual(["install-pkg", "usage", "usage-1"]);
+    expect(entries.every((entry) => entry.children.length === 0)).toBe(true);
+  });
+
+  it("reports spans of headings inside blockquotes", () => {
+    const [, , quoted] = toc(source, { minDepth: 2, maxDepth: 2 });
+    expect(source.slice(quoted.span.start, quoted.span.end)).toBe("## Usage");
+    expect(quoted.span.start).toBe(source.indexOf("> ## Usage") + 2);
+  });
+
+  it("renders matching ids in both renderers", () => {
+    const slugs = ["guide", "install-pkg", "from-npm", "usage", "usage-1", "deep"];
+    const ids = (html) => [...html.matchAll(/<h\d[^>]* id="([^"]+)"/g)].map((m) => m[1]);
+    expect(ids(toHtml(source, { headingIds: true }))).toEqual(slugs);
+    expect(ids(toHtmlLiteral(source, { headingIds: true }))).toEqual(slugs);
+    expect(toHtml(source)).not.toContain(" id=");
+  });
+});
+
+describe("chunkBySections", () => {
+  const source =
+    "Preface\n\n# Guide\n\n## Install\n\nRun it.\n\n```sh\nnpm i\nnpm test\n```\n\n| a | b |\n| - | - |\n| 1 | 2 |\n\n## Install\n\nAgain.\n";
+
+  it("chunks by heading with paths, slugs and spans", () => {
+    const chunks = chunkBySections(source);
+    expect(chunks.map(({ path, slug }) => ({ path, slug }))).toEqual([
+      { path: [], slug: null },
+      { path: ["Guide"], slug: "guide" },
+      { path: ["Guide", "Install"], slug: "install" },
+      { path: ["Guide", "Install"], slug: "install-1" },
+    ]);
+    expect(chunks[2].text).toBe("Run it.\n\nnpm i\nnpm test\n\na\tb\n1\t2");
+    const { start, end } = chunks[3].span;
+    expect(source.slice(start, end)).toBe("## Install\n\nAgain.");
+  });
+
+  it("splits long sections between blocks", () => {
+    const chunks = chunkBySections(source, { maxChars: 10, minDepth: 2 });
+    expect(chunks.map((chunk) => chunk.text)).toEqual([
+      "Preface",
+      "Guide",
+      "Run it.",
+      "npm i\nnpm test",
+      "a\tb\n1\t2",
+      "Again.",
+    ]);
+    expect(chunks[3].path).toEqual(["Install"]);
+    expect(source.slice(chunks[3].span.start, chunks[3].span.end)).toMatch(/^```sh[\s\S]*```$/);
+    expect(() => chunkBySections(source, { maxChars: 0 })).toThrow(TypeError);
+  });
+});
+
+describe("toText", () => {
+  const source =
+    "# Intro\n\nRead [the *guide*](/g) and `run()`.\nSee ![chart](/c.png)<br>\n\n- one\n- two\n\n```sh\nnpm i\n```\n";
+
+  it("strips markup and collapses whitespace", () => {
+    expect(toText(source)).toEqual({
+      text: "Intro Read the guide and run(). See chart one two npm i",
+      stats: { words: 12, characters: 44, readingTime: 1 },
+    });
+  });
+
+  it("keeps line breaks and drops code and alt text on request", () => {
+    const { text } = toText(source, {
+      preserveLineBreaks: true,
+      includeCode: false,
+      includeAlt: false,
+    });
+    expect(text).toBe("Intro\n\nRead the guide and .\nSee \n\none\ntwo");
+  });
+
+  it("counts CJK characters as words", () => {
+    expect(toText("日本語の文章です。Hello world\n").stats).toEqual({
+      words: 10,
+      characters: 19,
+      readingTime: 1,
+    });
+  });
+});
+
+describe("lint", () => {
+  const source =
+    "# Title\n\n### Setup\n\nSee [docs][] and [the spec][spec].\n\n" +
+    "[spec]: https://spec.test\n[old]: https://old.test\n\n## Setup\n\n" +
+    "[empty]() ![](a.png) [^1]\n";
+
+  it("reports problems with source offsets and fixes", () => {
+    expect(lint(source)).toEqual([
+      {
+        ruleId: "heading-increment",
+        severity: "warning",
+        message: "Heading level 3 follows level 1",
+        start: 9,
+        end: 18,
+        fix: { start: 9, end: 12, text: "##" },
+      },
+      {
+        ruleId: "no-undefined-references",
+        severity: "error",
+        message: 'Reference "docs" is not defined',
+        start: 24,
+        end: 32,
+      },
+      {
+        ruleId: "no-unused-definitions",
+        severity: "warning",
+        message: 'Definition "old" is never used',
+        start: 82,
+        end: 105,
+        fix: { start: 82, end: 106, text: "" },
+      },
+      {
+        ruleId: "no-duplicate-headings",
+        severity: "warning",
+        message: 'Duplicate heading "Setup"',
+        start: 107,
+        end: 115,
+      },
+      {
+        ruleId: "no-empty-links",
+        severity: "warning",
+        message: "Link has no destination",
+        start: 117,
+        end: 126,
+        fix: { start: 117, end: 126, text: "empty" },
+      },
+      {
+        ruleId: "no-missing-alt",
+        severity: "warning",
+        message: "Image has no alt text",
+        start: 127,
+        end: 137,
+      },
+      {
+        ruleId: "no-undefined-footnotes",
+        severity: "error",
+        message: 'Footnote "1" is not defined',
+        start: 138,
+        end: 142,
+      },
+    ]);
+  });
+
+  it("applies fixes as text edits", () => {
+    expect(applyFixes(source, lint(source))).toBe(
+      "# Title\n\n## Setup\n\nSee [docs][] and [the spec][spec].\n\n" +
+        "[spec]: https://spec.test\n\n## Setup\n\nempty ![](a.png) [^1]\n",
+    );
+  });
+
+  it("turns rules off and overrides severities", () => {
+    const diagnostics = lint(source, {
+      rules: { "no-duplicate-headings": "off", "no-missing-alt": "error" },
+    });
+    expect(diagnostics.map((d) => d.ruleId)).not.toContain("no-duplicate-headings");
+    expect(diagnostics.find((d) => d.ruleId === "no-missing-alt").severity).toBe("error");
+    expect(() => lint(source, { rules: { "no-such-rule": "off" } })).toThrow(TypeError);
+    expect(() => lint(source, { rules: { "no-missing-alt": true } })).toThrow(TypeError);
+  });
+
+  it("reports bare URLs only without autolink", () => {
+    const quoted = "> Visit https://a.test/x.\n";
+    expect(lint(quoted)).toEqual([]);
+    const diagnostics = lint(quoted, { autolink: false });
+    expect(diagnostics).toEqual([
+      {
+        ruleId: "no-bare-urls",
+        severity: "warning",
+        message: 'Bare URL "https://a.test/x" is not linked',
+        start: 8,
+        end: 24,
+        fix: { start: 8, end: 24, text: "<https://a.test/x>" },
+      },
+    ]);
+    expect(applyFixes(quoted, diagnostics)).toBe("> Visit <https://a.test/x>.\n");
+  });
+
+  it("locates unused definitions in blockquotes without fixing them", () => {
+    expect(lint("> [x]: /x\n")).toEqual([
+      {
+        ruleId: "no-unused-definitions",
+        severity: "warning",
+        message: 'Definition "x" is never used',
+        start: 2,
+        end: 9,
+      },
+    ]);
+  });
+});
+
+describe("select / visit", () => {
+  const source =
+    "## Install\n\n```ts\nnpm i\n```\n\n## Usage\n\nText\n\n" +
+    "1. one\n2. [two](https://two.test)\n\n> [!NOTE]\n> ## Aside\n";
+
+  it("selects nodes with types, attributes and combinators", () => {
+    const root = parse(source, { alerts: true });
+    expect(selectAll(root, "heading[depth=2] + code").map((n) => n.value)).toEqual(["npm i"]);
+    expect(selectAll(root, "list[ordered=true] > listItem")).toHaveLength(2);
+    expect(select(root, "code[lang=ts]").value).toBe("npm i");
+    expect(select(root, "code[lang=rust]")).toBeUndefined();
+    expect(selectAll(root, "link[url^='https:'] text").map((n) => n.value)).toEqual(["two"]);
+    expect(selectAll(root, "[data.alert=note] heading, root > heading ~ paragraph")).toEqual([
+      root.children[3],
+      root.children[5].children[0],
+    ]);
+    expect(() => selectAll(root, "heading[depth=2")).toThrow(TypeError);
+  });
+
+  it("visits nodes in order and skips children", () => {
+    const root = parse(source);
+    const types = [];
+    visit(root, null, (node) => {
+      types.push(node.type);
+      if (node.type === "list" || node.type === "blockquote") return SKIP;
+    });
+    expect(types).toEqual([
+      "root",
+      "heading",
+      "text",
+      "code",
+      "heading",
+      "text",
+      "paragraph",
+      "text",
+      "list",
+      "blockquote",
+    ]);
+  });
+
+  it("replaces and removes nodes", () => {
+    const root = parse(source);
+    visit(root, "link", (node) => node.children);
+    visit(root, (node) => node.type === "code" || node.type === "blockquote", () => []);
+    expect(selectAll(root, "link")).toEqual([]);
+    expect(selectAll(root, "code")).toEqual([]);
+    expect(astToMarkdown(root)).toBe("## Install\n\n## Usage\n\nText\n\n1. one\n2. two\n");
+    expect(() => visit(root, "root", () => [])).toThrow(TypeError);
+  });
+});
+
 describe("toMarkdown", () => {
   it("normalizes markdown", () => {
     const md = toMarkdown("# Hello\n\n\n\nWorld");
@@ -115,6 +820,256 @@ describe("toMarkdown", () => {
     const md = toMarkdown("[[MoonBit|MoonBit notes]]", { wikilinks: true });
     expect(md).toBe("[[MoonBit|MoonBit notes]]\n");
   });
+
+  it("applies style options", () => {
+    const source = "Title\n===\n\n- *a* **b**\n\n```\ncode\n```\n";
+    expect(
+      toMarkdown(source, {
+        bullet: "+",
+        emphasis: "_",
+        strong: "_",
+        fence: "~~~",
+        headingStyle: "atx",
+        listIndent: "tab",
+      }),
+    ).toBe("# Title\n\n+   _a_ __b__\n\n~~~\ncode\n~~~\n");
+    expect(astToMarkdown(parse(source), { bullet: "*" })).toBe(
+      toMarkdown(source, { bullet: "*" }),
+    );
+  });
+
+  it("wraps prose to printWidth", () => {
+    const source = "- one two three four `a code span` [a link](https://example.com/x)\n";
+    expect(toMarkdown(source, { proseWrap: "always", printWidth: 24 })).toBe(
+      "- one two three four\n  `a code span`\n  [a link](https://example.com/x)\n",
+    );
+    expect(toMarkdown("a\nb\n\n> c\n> d\n", { proseWrap: "never" })).toBe(
+      "a b\n\n> c d\n",
+    );
+    expect(toMarkdown("a\nb\n", { proseWrap: "preserve" })).toBe("a\nb\n");
+    expect(() => toMarkdown("a", { printWidth: 0 })).toThrow(/printWidth/);
+  });
+
+  it("keeps math fences and directives off wrapped line starts", () => {
+    // The tree without positions; adjacent text nodes are merged and
+    // whitespace runs collapsed, since wrapping moves line breaks
+    const shape = (node) => {
+      const result = { type: node.type };
+      if (typeof node.value === "string") result.value = node.value.replace(/\s+/g, " ");
+      if (node.name) result.name = node.name;
+      if (node.children) {
+        result.children = [];
+        for (const child of node.children.map(shape)) {
+          const last = result.children.at(-1);
+          if (child.type === "text" && last?.type === "text") {
+            last.value = (last.value + child.value).replace(/\s+/g, " ");
+          } else {
+            result.children.push(child);
+          }
+        }
+      }
+      return result;
+    };
+    const options = { math: true, directives: true };
+    const source = "aaaa $$ b\n\ncccc ::note\n\n:::note\ndddd :::\n:::\n";
+    const wrapped = toMarkdown(source, { ...options, proseWrap: "always", printWidth: 4 });
+    expect(shape(parse(wrapped, options))).toEqual(shape(parse(source, options)));
+  });
+
+  it("rejects unknown style values", () => {
+    expect(() => toMarkdown("- a", { bullet: "x" })).toThrow(TypeError);
+    expect(() => astToMarkdown(parse("# a"), { headingStyle: "closed" })).toThrow(
+      /headingStyle must be one of "atx", "setext"/,
+    );
+  });
+});
+
+describe("astToHtml / astToMarkdown", () => {
+  it("renders a parsed tree like the source", () => {
+    const source =
+      "# Title\n\n- [x] *done*\n- `code`\n\n> quote\n\n| a | b |\n| :- | -: |\n| 1 | 2 |\n\n```js meta\nlet x\n```\n";
+    expect(astToHtml(parse(source))).toBe(toHtml(source));
+    expect(astToMarkdown(parse(source))).toBe(toMarkdown(source));
+  });
+
+  it("renders a transformed tree", () => {
+    const ast = parse("See [docs](/docs) and [[MoonBit|notes]].\n", {
+      wikilinks: true,
+    });
+    const [, link, , wikiLink] = ast.children[0].children;
+    link.url = "https://example.com/docs";
+    wikiLink.data.label = "MoonBit notes";
+    ast.children.unshift({
+      type: "heading",
+      depth: 2,
+      children: [{ type: "text", value: "Intro" }],
+    });
+
+    expect(astToHtml(ast)).toBe(
+      '<h2>Intro</h2>\n<p>See <a href="https://example.com/docs">docs</a> and <a href="MoonBit">MoonBit notes</a>.</p>\n'
+    );
+    expect(astToMarkdown(ast)).toBe(
+      "## Intro\n\nSee [docs](https://example.com/docs) and [[MoonBit|MoonBit notes]].\n"
+    );
+  });
+
+  it("rejects non-root input", () => {
+    expect(() => astToHtml({ type: "paragraph", children: [] })).toThrow(TypeError);
+  });
+});
+
+describe("parseFrontmatter / updateFrontmatter", () => {
+  it("parses typed YAML values", () => {
+    const source =
+      "---\ntitle: Hello\ndraft: false\norder: 2\ntags: [a, b]\nauthor:\n  name: Ann\n---\n# Body\n";
+    const result = parseFrontmatter(source);
+    expect(result.format).toBe("yaml");
+    expect(result.data).toEqual({
+      title: "Hello",
+      draft: false,
+      order: 2,
+      tags: ["a", "b"],
+      author: { name: "Ann" },
+    });
+    expect(result.span).toEqual({ start: 0, end: source.indexOf("# Body") });
+    expect(result.body).toBe("# Body\n");
+  });
+
+  it("parses TOML frontmatter", () => {
+    const source =
+      '+++\ntitle = "Hello"\nweight = 10\n\n[params]\ntoc = true\n+++\nBody\n';
+    const result = parseFrontmatter(source);
+    expect(result.format).toBe("toml");
+    expect(result.data).toEqual({ title: "Hello", weight: 10, params: { toc: true } });
+    expect(result.body).toBe("Body\n");
+    // Rendering and parsing leave a `+++` block in the document
+    expect(toHtml(source)).toMatch(/^<p>\+\+\+\ntitle/);
+    expect(parse(source).children[0].type).toBe("paragraph");
+  });
+
+  it("returns empty data without frontmatter", () => {
+    expect(parseFrontmatter("# Title\n")).toEqual({
+      data: {},
+      format: null,
+      span: null,
+      body: "# Title\n",
+    });
+  });
+
+  it("rewrites only the patched keys", () => {
+    const body = "# Title\n\n  Body with  odd   spacing\n";
+    const source = "---\n# comment\ntitle:  Old  \ndraft: true\n---\n" + body;
+    const updated = updateFrontmatter(source, {
+      title: "New: title",
+      draft: undefined,
+      tags: ["a"],
+    });
+    expect(updated).toBe(
+      '---\n# comment\ntitle: "New: title"\ntags:\n  - a\n---\n' + body
+    );
+    expect(parseFrontmatter(updated).data).toEqual({ title: "New: title", tags: ["a"] });
+  });
+
+  it("adds a YAML block when missing", () => {
+    expect(updateFrontmatter("Body\n", { title: "Hi" })).toBe("---\ntitle: Hi\n---\nBody\n");
+  });
+
+  it("updates TOML in place", () => {
+    const source = '+++\ntitle = "Old"\n\n[params]\ntoc = true\n+++\nBody\n';
+    expect(updateFrontmatter(source, { title: "New", weight: 1 })).toBe(
+      '+++\ntitle = "New"\nweight = 1\n\n[params]\ntoc = true\n+++\nBody\n'
+    );
+  });
+});
+
+describe("createStreamRenderer", () => {
+  it("finalizes blocks once the next block starts", () => {
+    const stream = createStreamRenderer();
+    expect(stream.push("# Tit")).toEqual({
+      finalized: "",
+      delta: "",
+      provisional: "<h1>Tit</h1>\n",
+    });
+    expect(stream.push("le\n\nFirst para")).toEqual({
+      finalized: "<h1>Title</h1>\n",
+      delta: "<h1>Title</h1>\n",
+      provisional: "<p>First para</p>\n",
+    });
+    const result = stream.push("graph.\n\n- item");
+    expect(result.delta).toBe("<p>First paragraph.</p>\n");
+    expect(result.finalized).toBe("<h1>Title</h1>\n<p>First paragraph.</p>\n");
+    expect(result.provisional).toBe("<ul>\n<li>item</li>\n</ul>\n");
+  });
+
+  it("closes half-finished inline syntax in the provisional block", () => {
+    const stream = createStreamRenderer();
+    expect(stream.push("Some **bo").provisional).toBe("<p>Some <strong>bo</strong></p>\n");
+    expect(stream.push("ld** and `co").provisional).toBe(
+      "<p>Some <strong>bold</strong> and <code>co</code></p>\n"
+    );
+    expect(stream.push("de` **").provisional).toBe(
+      "<p>Some <strong>bold</strong> and <code>code</code></p>\n"
+    );
+  });
+
+  it("keeps an open fence as a code block", () => {
+    const stream = createStreamRenderer();
+    expect(stream.push("```js\nlet x = **1\n").provisional).toBe(
+      '<pre><code class="language-js">let x = **1\n</code></pre>\n'
+    );
+  });
+
+  it("matches toHtml once finished", () => {
+    const source =
+      "# Title\n\nSome *emphasis* and a [link](https://example.com).\n\n```\ncode\n```\n\n> quote\n\n1. one\n2. two\n";
+    const stream = createStreamRenderer();
+    for (let i = 0; i < source.length; i += 3) {
+      stream.push(source.slice(i, i + 3));
+    }
+    expect(stream.source).toBe(source);
+    expect(stream.finish()).toBe(toHtml(source));
+    expect(() => stream.push("more")).toThrow(/finished/);
+  });
+
+  it("keeps blocks whole after astral characters", () => {
+    const source = "# 😀 Title\n\nSome 𠀋 *text* 🎉\n\n- 🍣 one\n- two\n\nEnd 👋\n";
+    const stream = createStreamRenderer();
+    let delta = "";
+    for (let i = 0; i < source.length; i += 2) {
+      delta += stream.push(source.slice(i, i + 2)).delta;
+    }
+    const html = stream.finish();
+    expect(html).toBe(toHtml(source));
+    expect(html.startsWith(delta)).toBe(true);
+    expect(html.match(/<p>/g)).toHaveLength(2);
+  });
+
+  it("renders finalized blocks with the stream options", () => {
+    const source = "Intro\n\n> [!NOTE]\n> Heads up https://example.com\n\nDone\n";
+    const options = { alerts: true, autolink: false };
+    const stream = createStreamRenderer(options);
+    let delta = "";
+    for (let i = 0; i < source.length; i += 5) {
+      delta += stream.push(source.slice(i, i + 5)).delta;
+    }
+    expect(delta).toContain('<div class="markdown-alert markdown-alert-note">');
+    expect(delta).not.toContain("<a ");
+    expect(stream.finish()).toBe(toHtml(source, options));
+  });
+
+  it("does not take a later thematic break for frontmatter", () => {
+    const source = "Intro\n\n---\ntitle: x\n---\n\nDone\n";
+    const stream = createStreamRenderer();
+    // The trailing block starts at `---` once "Intro" is finalized
+    expect(stream.push("Intro\n\n---").delta).toBe("<p>Intro</p>\n");
+    stream.push("\ntitle: x\n---\n\nDone\n");
+    expect(stream.finish()).toBe(toHtml(source));
+  });
+
+  it("rejects options that need the whole document", () => {
+    expect(() => createStreamRenderer({ headingIds: true })).toThrow(TypeError);
+    expect(() => createStreamRenderer({ positions: true })).toThrow(TypeError);
+  });
 });
 
 describe("Edit helpers", () => {
@@ -202,6 +1157,31 @@ describe("createDocument", () => {
     doc.dispose();
   });
 
+  it("keeps strict mode on document handles", () => {
+    const source = "*(**foo**)*\n";
+    const doc = createDocument(source, { strict: true });
+    expect(doc.toHtml()).toBe(toHtml(source, { strict: true }));
+    doc.dispose();
+  });
+
+  it("renders handles with the toHtml options", () => {
+    const source = "# Intro\n\nSee [docs](/docs) and *more*.\n";
+    const options = {
+      headingIds: true,
+      positions: true,
+      transformUrl: (url) => `/v2${url}`,
+    };
+    for (const opts of [{ headingIds: true, positions: true }, options]) {
+      const doc = createDocument(source, opts);
+      expect(doc.toHtml()).toBe(toHtml(source, opts));
+      const next = doc.update(`${source}\n## More\n`, insertEdit(source.length, 9));
+      expect(next.toHtml()).toBe(toHtml(`${source}\n## More\n`, opts));
+      doc.dispose();
+      next.dispose();
+    }
+    expect(toHtml(source, options)).toContain('href="/v2/docs"');
+  });
+
   it("supports incremental update", () => {
     const doc = createDocument("# Hello");
     // "# Hello" -> "# Hello World" (insert " World" at position 7)
@@ -213,4 +1193,124 @@ describe("createDocument", () => {
     doc.dispose();
     newDoc.dispose();
   });
+
+  it("chains incremental updates across versions", () => {
+    const doc = createDocument("# Hello\n\nWorld\n");
+    expect(doc.version).toBe(0);
+
+    const v1 = doc.update("# Hello!\n\nWorld\n", insertEdit(7, 1));
+    const v2 = v1.update("# Hello!\n\nWorld!\n", insertEdit(15, 1));
+    const v3 = v2.update("# Hi!\n\nWorld!\n", replaceEdit(2, 7, 2));
+
+    expect([v1.version, v2.version, v3.version]).toEqual([1, 2, 3]);
+    expect(v3.toHtml()).toBe("<h1>Hi!</h1>\n<p>World!</p>\n");
+    expect(v3.toMarkdown()).toBe("# Hi!\n\nWorld!\n");
+    // Earlier versions stay readable
+    expect(v1.toHtml()).toBe("<h1>Hello!</h1>\n<p>World</p>\n");
+
+    for (const handle of [doc, v1, v2, v3]) handle.dispose();
+  });
+
+  it("chains incremental updates after astral characters", () => {
+    const sources = [
+      "# 😀 Hi\n\nOne\n\nTwo\n",
+      "# 😀 Hi\n\nOne!\n\nTwo\n",
+      "# 😀 Hi\n\n🎉\n\nTwo\n",
+      "# 😀 Hi\n\n🎉\n\nTwo more\n",
+    ];
+    const edits = [insertEdit(12, 1), replaceEdit(9, 13, 2), insertEdit(16, 5)];
+    const handles = [createDocument(sources[0])];
+    edits.forEach((edit, i) => {
+      // Build each AST first so the next version patches it
+      expect(handles[i].ast).toEqual(parse(sources[i]));
+      handles.push(handles[i].update(sources[i + 1], edit));
+    });
+    handles.forEach((handle, i) => {
+      expect(handle.ast).toEqual(parse(sources[i]));
+      expect(handle.toHtml()).toBe(toHtml(sources[i]));
+      expect(handle.toMarkdown()).toBe(sources[i]);
+    });
+    for (const handle of handles) handle.dispose();
+  });
+
+  it("rejects updates on stale handles", () => {
+    const doc = createDocument("# Hello");
+    const next = doc.update("# Hello World", insertEdit(7, 6));
+    expect(() => doc.update("# Hello!", insertEdit(7, 1))).toThrow(
+      /version 0 is stale/
+    );
+    doc.dispose();
+    next.dispose();
+  });
+
+  it("rejects use of disposed handles", () => {
+    const doc = createDocument("# Hello");
+    doc.dispose();
+    expect(() => doc.update("# Hello!", insertEdit(7, 1))).toThrow(
+      /has been disposed/
+    );
+    expect(() => doc.toHtml()).toThrow(/has been disposed/);
+    expect(() => doc.dispose()).not.toThrow();
+  });
+
+  it("reports top-level block changes on update", () => {
+    const doc = createDocument("# Title\n\nOne\n\nTwo\n");
+    expect(doc.changes).toBe(null);
+
+    const next = doc.update("# Title\n\nOne\n\nNew\n\nTwo\n", insertEdit(14, 5));
+    expect(next.changes.removed).toEqual([]);
+    expect(next.changes.inserted.length).toBe(1);
+    const touched = [
+      ...next.changes.reused.map((pair) => pair.newIndex),
+      ...next.changes.reparsed.map((pair) => pair.newIndex),
+      ...next.changes.inserted,
+    ].sort();
+    expect(touched).toEqual([0, 1, 2, 3]);
+
+    doc.dispose();
+    next.dispose();
+  });
+
+  it("builds the updated AST incrementally", () => {
+    const source = "# Title\n\nOne\n\nTwo\n\nThree\n";
+    const doc = createDocument(source);
+    const before = doc.ast;
+
+    const newSource = "# Title\n\nOne\nmore\n\nTwo\n\nThree\n";
+    const next = doc.update(newSource, insertEdit(13, 5));
+    const ast = next.ast;
+
+    // The whole tree matches a fresh parse, positions included
+    expect(ast).toEqual(parse(newSource));
+    // Reused blocks are copies: changing the old tree leaves the new one
+    visit(before, "text", (node) => {
+      node.value = "changed";
+    });
+    before.children[3].data = { changed: true };
+    expect(ast).toEqual(parse(newSource));
+
+    doc.dispose();
+    next.dispose();
+  });
+
+  it("returns link definitions in the handle AST", () => {
+    const source = "[a]: /a\n\nSee [a]\n";
+    const doc = createDocument(source);
+    expect(doc.ast).toEqual(parse(source));
+
+    const newSource = "[b]: /b 'B'\n\n[a]: /a\n\nSee [a]\n";
+    const patched = doc.update(newSource, insertEdit(0, 13));
+    expect(patched.ast).toEqual(parse(newSource));
+    expect(patched.ast.data.definitions).toEqual({
+      a: { url: "/a", title: null },
+      b: { url: "/b", title: "B" },
+    });
+
+    // Without a previous AST to patch, the handle serializes its own
+    const base = createDocument(source);
+    const fresh = base.update(newSource, insertEdit(0, 13));
+    expect(fresh.ast).toEqual(parse(newSource));
+
+    for (const handle of [doc, patched, base, fresh]) handle.dispose();
+  });
 });
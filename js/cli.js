@@ -0,0 +1,340 @@
+#!/usr/bin/env node
+/**
+ * markdown-mbt - command-line interface for @mizchi/markdown
+ *
+ * Renders, formats and checks markdown from stdin or from files and globs.
+ * Run `markdown-mbt --help` for usage.
+ */
+
+import { readFileSync, writeFileSync, readdirSync, realpathSync, statSync } from "node:fs";
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+import { parse, toHtml, toHtmlLiteral, toMarkdown } from "./api.js";
+
+const USAGE = `Usage: markdown-mbt <command> [options] [files or globs...]
+
+Reads stdin when no files are given (or for "-").
+
+Commands:
+  html      Render HTML
+  ast       Print the mdast tree as JSON (one document per input)
+  fmt       Print the formatted markdown (toMarkdown)
+  literal   Render literal HTML (toHtmlLiteral)
+  check     Report references to undefined link labels
+
+Options:
+  --wikilinks     Parse [[target]] and [[target|label]]
+  --no-autolink   Keep bare URLs as plain text
+  --strict        Use the spec-compliant CommonMark inline parser
+  --check         fmt: list inputs the formatter would change, exit 1 if any
+  --write         fmt: rewrite files in place
+  --prose-wrap <preserve|always|never>
+                  fmt: reflow paragraph text (default preserve)
+  --print-width <n>
+                  fmt: line width for --prose-wrap always (default 80)
+  -h, --help      Show this help
+`;
+
+const COMMANDS = new Set(["html", "ast", "fmt", "literal", "check"]);
+const PROSE_WRAP = new Set(["preserve", "always", "never"]);
+
+/** Raised for invalid invocations; exits with status 2. */
+class UsageError extends Error {}
+
+/**
+ * Split argv into the command, flags and input patterns.
+ * @param {string[]} argv - Arguments after the script name
+ */
+function parseArgs(argv) {
+  const flags = {
+    wikilinks: false,
+    autolink: true,
+    strict: false,
+    check: false,
+    write: false,
+    help: false,
+  };
+  /** Style options for fmt */
+  const style = {};
+  const inputs = [];
+  let command = null;
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    switch (arg) {
+      case "--wikilinks":
+        flags.wikilinks = true;
+        break;
+      case "--no-autolink":
+        flags.autolink = false;
+        break;
+      case "--strict":
+        flags.strict = true;
+        break;
+      case "--check":
+        flags.check = true;
+        break;
+      case "--write":
+        flags.write = true;
+        break;
+      case "--prose-wrap":
+      case "--print-width": {
+        const value = argv[++i];
+        if (value === undefined) throw new UsageError(`${arg} needs a value`);
+        if (arg === "--prose-wrap") {
+          if (!PROSE_WRAP.has(value)) {
+            throw new UsageError("--prose-wrap must be one of preserve, always, never");
+          }
+          style.proseWrap = value;
+        } else {
+          const width = Number(value);
+          if (!Number.isInteger(width) || width < 1) {
+            throw new UsageError("--print-width must be a positive integer");
+          }
+          style.printWidth = width;
+        }
+        break;
+      }
+      case "-h":
+      case "--help":
+        flags.help = true;
+        break;
+      default:
+        if (arg.startsWith("-") && arg !== "-") {
+          throw new UsageError(`unknown option: ${arg}`);
+        }
+        if (command === null) {
+          if (!COMMANDS.has(arg)) throw new UsageError(`unknown command: ${arg}`);
+          command = arg;
+        } else {
+          inputs.push(arg);
+        }
+    }
+  }
+  if ((flags.check || flags.write || Object.keys(style).length > 0) && command !== "fmt") {
+    throw new UsageError("--check, --write, --prose-wrap and --print-width only apply to fmt");
+  }
+  if (flags.check && flags.write) {
+    throw new UsageError("--check and --write cannot be combined");
+  }
+  return { command, flags, style, inputs };
+}
+
+// =============================================================================
+// Inputs
+// =============================================================================
+
+const GLOB_CHARS = /[*?[]/;
+
+/**
+ * Translate a glob (`*`, `?`, `**`, `[...]`) into a RegExp over
+ * `/`-separated relative paths.
+ * @param {string} glob
+ */
+function globToRegExp(glob) {
+  let re = "";
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "*") {
+      if (glob[i + 1] === "*") {
+        // `**/` matches any number of directories, including none
+        if (glob[i + 2] === "/") {
+          re += "(?:[^/]+/)*";
+          i += 2;
+        } else {
+          re += ".*";
+          i += 1;
+        }
+      } else {
+        re += "[^/]*";
+      }
+    } else if (c === "?") {
+      re += "[^/]";
+    } else if (c === "[") {
+      const close = glob.indexOf("]", i + 1);
+      if (close < 0) {
+        re += "\\[";
+      } else {
+        re += `[${glob.slice(i + 1, close).replace(/^!/, "^")}]`;
+        i = close;
+      }
+    } else {
+      re += c.replace(/[.+^${}()|\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${re}$`);
+}
+
+/**
+ * Files under `dir` as `/`-separated paths relative to it. Dot entries and
+ * `node_modules` are skipped.
+ * @param {string} dir
+ * @param {string} [prefix]
+ * @returns {string[]}
+ */
+function walkFiles(dir, prefix = "") {
+  const files = [];
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    if (entry.name.startsWith(".") || entry.name === "node_modules") continue;
+    const rel = prefix + entry.name;
+    if (entry.isDirectory()) {
+      files.push(...walkFiles(join(dir, entry.name), `${rel}/`));
+    } else if (entry.isFile()) {
+      files.push(rel);
+    }
+  }
+  return files;
+}
+
+/**
+ * Expand a glob pattern into matching file paths, sorted.
+ * @param {string} pattern
+ * @returns {string[]}
+ */
+function expandGlob(pattern) {
+  const parts = pattern.split("/");
+  const firstGlob = parts.findIndex((part) => GLOB_CHARS.test(part));
+  const baseParts = parts.slice(0, firstGlob);
+  const base = baseParts.length === 0 ? "." : baseParts.join("/") || "/";
+  const matcher = globToRegExp(parts.slice(firstGlob).join("/"));
+  let files;
+  try {
+    files = walkFiles(base);
+  } catch {
+    return [];
+  }
+  return files
+    .filter((file) => matcher.test(file))
+    .map((file) => (baseParts.length === 0 ? file : `${base.replace(/\/$/, "")}/${file}`))
+    .sort();
+}
+
+/**
+ * Resolve input arguments to `{ name, path }` entries; `path` is null for
+ * stdin. Glob patterns that match nothing are an error, like a missing file.
+ * @param {string[]} inputs
+ */
+function resolveInputs(inputs) {
+  if (inputs.length === 0) return [{ name: "<stdin>", path: null }];
+  const seen = new Set();
+  const resolved = [];
+  for (const input of inputs) {
+    if (input === "-") {
+      resolved.push({ name: "<stdin>", path: null });
+      continue;
+    }
+    let paths;
+    if (GLOB_CHARS.test(input)) {
+      paths = expandGlob(input);
+      if (paths.length === 0) throw new UsageError(`no files match ${input}`);
+    } else {
+      if (!statSync(input, { throwIfNoEntry: false })?.isFile()) {
+        throw new UsageError(`no such file: ${input}`);
+      }
+      paths = [input];
+    }
+    for (const path of paths) {
+      if (seen.has(path)) continue;
+      seen.add(path);
+      resolved.push({ name: path, path });
+    }
+  }
+  return resolved;
+}
+
+/** @param {{ path: string | null }} input */
+function readInput(input) {
+  return readFileSync(input.path ?? 0, "utf8");
+}
+
+// =============================================================================
+// Commands
+// =============================================================================
+
+/**
+ * `linkReference`/`imageReference` nodes whose label has no definition.
+ * @param {import("mdast").Node} node - mdast node parsed with `resolveReferences: true`
+ * @param {import("mdast").Node[]} [found]
+ */
+function undefinedReferences(node, found = []) {
+  if (node.data?.undefinedReference === true) found.push(node);
+  for (const child of node.children ?? []) undefinedReferences(child, found);
+  return found;
+}
+
+/**
+ * Run the CLI and return its exit status.
+ * @param {string[]} argv - Arguments after the script name
+ * @param {{ stdout: (text: string) => void, stderr: (text: string) => void }} io
+ * @returns {number}
+ */
+export function run(argv, io) {
+  let command, flags, style, inputs;
+  try {
+    ({ command, flags, style, inputs } = parseArgs(argv));
+    if (flags.help) {
+      io.stdout(USAGE);
+      return 0;
+    }
+    if (command === null) {
+      io.stderr(USAGE);
+      return 2;
+    }
+    inputs = resolveInputs(inputs);
+    if (flags.write && inputs.some((input) => input.path === null)) {
+      throw new UsageError("--write needs file inputs");
+    }
+  } catch (error) {
+    if (!(error instanceof UsageError)) throw error;
+    io.stderr(`markdown-mbt: ${error.message}\nRun "markdown-mbt --help" for usage.\n`);
+    return 2;
+  }
+
+  const options = { wikilinks: flags.wikilinks, autolink: flags.autolink, strict: flags.strict };
+  let status = 0;
+  for (const input of inputs) {
+    const source = readInput(input);
+    switch (command) {
+      case "html":
+        io.stdout(toHtml(source, options));
+        break;
+      case "literal":
+        io.stdout(toHtmlLiteral(source, options));
+        break;
+      case "ast":
+        io.stdout(`${JSON.stringify(parse(source, options), null, 2)}\n`);
+        break;
+      case "fmt": {
+        const formatted = toMarkdown(source, { ...options, ...style });
+        if (flags.check) {
+          if (formatted !== source) {
+            io.stdout(`${input.name}\n`);
+            status = 1;
+          }
+        } else if (flags.write) {
+          if (formatted !== source && input.path !== null) writeFileSync(input.path, formatted);
+        } else {
+          io.stdout(formatted);
+        }
+        break;
+      }
+      case "check": {
+        const ast = parse(source, { ...options, resolveReferences: true });
+        for (const node of undefinedReferences(ast)) {
+          const { line, column } = node.position.start;
+          io.stdout(`${input.name}:${line}:${column}: undefined reference [${node.label}]\n`);
+          status = 1;
+        }
+        break;
+      }
+    }
+  }
+  return status;
+}
+
+// Run when executed directly (npm links the bin, so compare real paths)
+if (process.argv[1] && import.meta.url === pathToFileURL(realpathSync(process.argv[1])).href) {
+  process.exitCode = run(process.argv.slice(2), {
+    stdout: (text) => process.stdout.write(text),
+    stderr: (text) => process.stderr.write(text),
+  });
+}
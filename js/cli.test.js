@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, mkdirSync, writeFileSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { run } from "./cli.js";
+import { toHtml, toMarkdown } from "./api.js";
+
+function runCli(argv) {
+  let stdout = "";
+  let stderr = "";
+  const status = run(argv, {
+    stdout: (text) => (stdout += text),
+    stderr: (text) => (stderr += text),
+  });
+  return { status, stdout, stderr };
+}
+
+describe("markdown-mbt", () => {
+  let dir;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "markdown-mbt-"));
+    mkdirSync(join(dir, "docs/guide"), { recursive: true });
+    writeFileSync(join(dir, "docs/index.md"), "# Index\n");
+    writeFileSync(join(dir, "docs/guide/setup.md"), "*   item\n");
+    writeFileSync(join(dir, "docs/guide/refs.md"), "[ok][a] [bad][Missing]\n\n[a]: /a\n");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("renders files and globs in order", () => {
+    const index = join(dir, "docs/index.md");
+    const { status, stdout } = runCli(["html", index, join(dir, "docs/**/set*.md")]);
+    expect(status).toBe(0);
+    expect(stdout).toBe(toHtml("# Index\n") + toHtml("*   item\n"));
+  });
+
+  it("passes parser flags through", () => {
+    const file = join(dir, "docs/wiki.md");
+    writeFileSync(file, "[[Page]] https://example.com\n");
+    const { stdout } = runCli(["html", "--wikilinks", "--no-autolink", file]);
+    expect(stdout).toBe(
+      toHtml("[[Page]] https://example.com\n", { wikilinks: true, autolink: false }),
+    );
+    const ast = JSON.parse(runCli(["ast", "--wikilinks", file]).stdout);
+    expect(ast.children[0].children[0].type).toBe("wikiLink");
+  });
+
+  it("fmt --check lists files the formatter would change", () => {
+    const { status, stdout } = runCli(["fmt", "--check", join(dir, "docs/**/*.md")]);
+    const changed = ["docs/guide/refs.md", "docs/guide/setup.md", "docs/index.md"]
+      .map((name) => join(dir, name))
+      .filter((path) => {
+        const source = readFileSync(path, "utf8");
+        return toMarkdown(source) !== source;
+      });
+    expect(changed).toContain(join(dir, "docs/guide/setup.md"));
+    expect(stdout).toBe(changed.map((path) => `${path}\n`).join(""));
+    expect(status).toBe(1);
+
+    const clean = join(dir, "docs/clean.md");
+    writeFileSync(clean, toMarkdown("# Clean\n"));
+    expect(runCli(["fmt", "--check", clean])).toMatchObject({ status: 0, stdout: "" });
+  });
+
+  it("fmt --write rewrites files in place", () => {
+    const file = join(dir, "docs/guide/setup.md");
+    expect(runCli(["fmt", "--write", file]).status).toBe(0);
+    expect(readFileSync(file, "utf8")).toBe(toMarkdown("*   item\n"));
+  });
+
+  it("fmt passes prose wrap options", () => {
+    const file = join(dir, "docs/prose.md");
+    writeFileSync(file, "one two three\nfour\n");
+    const { stdout } = runCli(["fmt", "--prose-wrap", "always", "--print-width", "9", file]);
+    expect(stdout).toBe(toMarkdown("one two three\nfour\n", { proseWrap: "always", printWidth: 9 }));
+    expect(runCli(["fmt", "--prose-wrap", "sometimes", file])).toMatchObject({ status: 2 });
+    expect(runCli(["fmt", "--prose-wrap", "sometimes", file]).stderr).toContain(
+      "--prose-wrap must be one of preserve, always, never",
+    );
+    expect(runCli(["fmt", "--print-width", "0", file]).stderr).toContain(
+      "--print-width must be a positive integer",
+    );
+    expect(runCli(["fmt", "--print-width", "wide", file])).toMatchObject({ status: 2 });
+  });
+
+  it("check reports undefined references with their location", () => {
+    const file = join(dir, "docs/guide/refs.md");
+    const { status, stdout } = runCli(["check", file]);
+    expect(status).toBe(1);
+    expect(stdout).toBe(`${file}:1:9: undefined reference [Missing]\n`);
+    expect(runCli(["check", join(dir, "docs/index.md")]).status).toBe(0);
+  });
+
+  it("rejects bad invocations with status 2", () => {
+    expect(runCli([]).status).toBe(2);
+    expect(runCli(["render"]).stderr).toContain("unknown command: render");
+    expect(runCli(["html", "--check"]).stderr).toContain("only apply to fmt");
+    expect(runCli(["fmt", "--print-width"]).stderr).toContain("needs a value");
+    expect(runCli(["html", join(dir, "nothing/*.md")]).stderr).toContain("no files match");
+  });
+});
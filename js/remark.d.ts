@@ -0,0 +1,44 @@
+/**
+ * @mizchi/markdown/remark - unified plugin adapters
+ */
+
+import type { Root } from "mdast";
+import type { Plugin } from "unified";
+import type { MarkdownOptions, SerializeStyleOptions } from "./api";
+
+/**
+ * unified parser plugin backed by `parse`. Drop-in replacement for
+ * remark-parse: the rest of a remark/rehype chain sees the same mdast.
+ * Options are merged over the processor's `settings` data.
+ *
+ * @example
+ * import { unified } from "unified";
+ * import remarkRehype from "remark-rehype";
+ * import rehypeStringify from "rehype-stringify";
+ * import { remarkMarkdownMbt } from "@mizchi/markdown/remark";
+ *
+ * const file = await unified()
+ *   .use(remarkMarkdownMbt, { wikilinks: true })
+ *   .use(remarkRehype)
+ *   .use(rehypeStringify)
+ *   .process("# Hello");
+ */
+export const remarkMarkdownMbt: Plugin<[(MarkdownOptions | null | undefined)?], string, Root>;
+
+/**
+ * unified compiler plugin backed by `astToMarkdown`. Drop-in replacement
+ * for remark-stringify, producing the same output as `toMarkdown`.
+ * Takes the `toMarkdown` style options (`bullet`, `emphasis`, …).
+ *
+ * @example
+ * const file = await unified()
+ *   .use(remarkMarkdownMbt)
+ *   .use(remarkMarkdownMbtStringify)
+ *   .process("# Hello\n\n\n\nWorld");
+ * String(file); // => "# Hello\n\nWorld\n"
+ */
+export const remarkMarkdownMbtStringify: Plugin<
+  [(SerializeStyleOptions | null | undefined)?],
+  Root,
+  string
+>;
@@ -0,0 +1,29 @@
+/**
+ * @mizchi/markdown/remark - unified plugin adapters
+ *
+ * Lets a unified pipeline use this parser and serializer in place of
+ * remark-parse and remark-stringify.
+ */
+
+import { parse, astToMarkdown } from "./api.js";
+
+/**
+ * unified parser plugin: parses markdown into mdast with `parse`.
+ * Options are merged over the processor's `settings` data, like remark-parse.
+ * @this {import('unified').Processor}
+ * @param {import('./api').MarkdownOptions} [options] - Parser extensions
+ */
+export function remarkMarkdownMbt(options) {
+  const self = this;
+  self.parser = (doc) => parse(doc, { ...self.data("settings"), ...options });
+}
+
+/**
+ * unified compiler plugin: serializes mdast to markdown with
+ * `astToMarkdown`, the tree counterpart of `toMarkdown`.
+ * @this {import('unified').Processor}
+ * @param {import('./api').SerializeStyleOptions} [options] - Output style
+ */
+export function remarkMarkdownMbtStringify(options) {
+  this.compiler = (tree) => astToMarkdown(tree, options ?? {});
+}
@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { unified } from "unified";
+import remarkHtml from "remark-html";
+import { toMarkdown } from "./api.js";
+import { remarkMarkdownMbt, remarkMarkdownMbtStringify } from "./remark.js";
+
+describe("remarkMarkdownMbt", () => {
+  it("parses into mdast for downstream plugins", () => {
+    const processor = unified().use(remarkMarkdownMbt);
+    const tree = processor.parse("# Hello\n\n**Bold** text\n");
+    expect(tree.type).toBe("root");
+    expect(tree.children.map((node) => node.type)).toEqual([
+      "heading",
+      "paragraph",
+    ]);
+  });
+
+  it("passes options to the parser", () => {
+    const tree = unified()
+      .use(remarkMarkdownMbt, { wikilinks: true })
+      .parse("[[MoonBit]]");
+    expect(tree.children[0].children[0].type).toBe("wikiLink");
+  });
+
+  it("works with remark compilers", async () => {
+    const file = await unified()
+      .use(remarkMarkdownMbt)
+      .use(remarkHtml)
+      .process("# Hello\n");
+    expect(String(file)).toBe("<h1>Hello</h1>\n");
+  });
+});
+
+describe("remarkMarkdownMbtStringify", () => {
+  it("serializes like toMarkdown", async () => {
+    const source = "# Hello\n\n\n\n- a\n- b\n";
+    const file = await unified()
+      .use(remarkMarkdownMbt)
+      .use(remarkMarkdownMbtStringify)
+      .process(source);
+    expect(String(file)).toBe(toMarkdown(source));
+  });
+});
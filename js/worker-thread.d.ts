@@ -0,0 +1,18 @@
+/**
+ * @mizchi/markdown/worker/thread - worker side of `createMarkdownWorker`
+ */
+
+/**
+ * Answer `createMarkdownWorker` requests arriving on `port`. Loaded as a
+ * module worker, this module does so for its global scope; import it to
+ * serve a worker of your own.
+ *
+ * @example
+ * // my-worker.js
+ * import { serveMarkdownWorker } from "@mizchi/markdown/worker/thread";
+ * serveMarkdownWorker(self);
+ */
+export function serveMarkdownWorker(port: {
+  postMessage(message: unknown): void;
+  addEventListener(type: "message", listener: (event: MessageEvent) => void): void;
+}): void;
@@ -0,0 +1,125 @@
+/**
+ * @mizchi/markdown/worker - worker side
+ *
+ * Answers requests from `createMarkdownWorker()`. Loaded as a module
+ * worker, it serves its own global scope; `serveMarkdownWorker` can also
+ * be attached to any other message port.
+ */
+
+import { createDocument, parse, toHtml, toHtmlLiteral } from "./api.js";
+
+/**
+ * Documents by id. Each keeps its latest version and the one before it,
+ * so the latest AST can still be patched from the previous one.
+ * @typedef {{ current: import('./api').DocumentHandle, previous: import('./api').DocumentHandle | null }} DocumentEntry
+ */
+
+/**
+ * Handle requests arriving on `port`.
+ *
+ * Requests are queued and run one per task, so messages that arrive while
+ * a request runs are seen before the next one starts. A request whose
+ * `key` has been reused by a newer request is answered with
+ * `{ id, stale: true }` instead of being run.
+ * @param {{ postMessage(message: unknown): void, addEventListener(type: "message", listener: (event: MessageEvent) => void): void }} port
+ */
+export function serveMarkdownWorker(port) {
+  /** @type {Map<number, DocumentEntry>} */
+  const documents = new Map();
+  /** Newest request id by key */
+  const latest = new Map();
+  const queue = [];
+  let scheduled = false;
+
+  function schedule() {
+    if (scheduled || queue.length === 0) return;
+    scheduled = true;
+    setTimeout(() => {
+      scheduled = false;
+      const request = queue.shift();
+      if (request.key != null && latest.get(request.key) !== request.id) {
+        port.postMessage({ id: request.id, stale: true });
+      } else {
+        respond(request);
+      }
+      if (request.key != null && latest.get(request.key) === request.id) {
+        latest.delete(request.key);
+      }
+      schedule();
+    }, 0);
+  }
+
+  function respond({ id, method, args }) {
+    try {
+      port.postMessage({ id, result: run(method, args) });
+    } catch (error) {
+      port.postMessage({
+        id,
+        error: {
+          name: error?.name ?? "Error",
+          message: error?.message ?? String(error),
+        },
+      });
+    }
+  }
+
+  function entry(documentId) {
+    const found = documents.get(documentId);
+    if (!found) throw new Error(`document ${documentId} does not exist`);
+    return found;
+  }
+
+  function run(method, args) {
+    switch (method) {
+      case "parse":
+        return parse(args[0], args[1]);
+      case "toHtml":
+        return toHtml(args[0], args[1]);
+      case "toHtmlLiteral":
+        return toHtmlLiteral(args[0], args[1]);
+      case "createDocument": {
+        const [documentId, source, options] = args;
+        documents.set(documentId, { current: createDocument(source, options), previous: null });
+        return null;
+      }
+      case "document.update": {
+        const [documentId, newSource, edit] = args;
+        const doc = entry(documentId);
+        const next = doc.current.update(newSource, edit);
+        doc.previous?.dispose();
+        doc.previous = doc.current;
+        doc.current = next;
+        return { version: next.version, changes: next.changes };
+      }
+      case "document.ast":
+        return entry(args[0]).current.ast;
+      case "document.toHtml":
+        return entry(args[0]).current.toHtml();
+      case "document.toMarkdown":
+        return entry(args[0]).current.toMarkdown();
+      case "document.dispose": {
+        const doc = documents.get(args[0]);
+        if (doc) {
+          documents.delete(args[0]);
+          doc.previous?.dispose();
+          doc.current.dispose();
+        }
+        return null;
+      }
+      default:
+        throw new Error(`unknown method: ${method}`);
+    }
+  }
+
+  port.addEventListener("message", (event) => {
+    const request = event.data;
+    if (request.key != null) latest.set(request.key, request.id);
+    queue.push(request);
+    schedule();
+  });
+}
+
+// Serve the global scope when loaded as a worker
+if (typeof WorkerGlobalScope !== "undefined" && globalThis instanceof WorkerGlobalScope) {
+  serveMarkdownWorker(globalThis);
+}
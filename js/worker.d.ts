@@ -0,0 +1,129 @@
+/**
+ * @mizchi/markdown/worker - run the parser in a dedicated Worker
+ */
+
+import type {
+  DocumentChanges,
+  EditInfo,
+  HtmlOptions,
+  LiteralOptions,
+  MarkdownOptions,
+  ParsedRoot,
+  ParseOptions,
+} from "./api";
+
+/**
+ * Rejection of a request superseded by a newer request with the same key.
+ */
+export class StaleRequestError extends Error {
+  name: "StaleRequestError";
+}
+
+/**
+ * Which requests supersede each other.
+ */
+export interface RequestKeyOptions {
+  /**
+   * A newer request with the same key rejects this one with a
+   * `StaleRequestError` if it is still pending; the worker skips it if it
+   * has not started yet. Defaults to the method name (per document for
+   * document methods); `null` never cancels.
+   */
+  key?: string | null;
+}
+
+export interface MarkdownWorkerOptions {
+  /**
+   * Worker to talk to instead of starting one from the bundled
+   * `worker-thread.js`. It must run `serveMarkdownWorker` from
+   * `@mizchi/markdown/worker/thread`.
+   */
+  worker?: Worker;
+}
+
+/**
+ * An incremental document living in the worker. The worker keeps only the
+ * latest version, so there is no history to fork.
+ */
+export interface WorkerDocument {
+  /** Version reached by the last completed `update` (0 before any) */
+  readonly version: number;
+
+  /** What the last completed `update` changed, or `null` before any */
+  readonly changes: DocumentChanges | null;
+
+  /**
+   * Apply an incremental edit. Updates are never cancelled and are
+   * applied in call order, so they can be sent without awaiting each one.
+   */
+  update(
+    newSource: string,
+    edit: EditInfo,
+  ): Promise<{ version: number; changes: DocumentChanges | null }>;
+
+  /** The AST of the latest version */
+  ast(options?: RequestKeyOptions): Promise<import("mdast").Root>;
+
+  /** Render the latest version to HTML */
+  toHtml(options?: RequestKeyOptions): Promise<string>;
+
+  /** Serialize the latest version back to markdown */
+  toMarkdown(options?: RequestKeyOptions): Promise<string>;
+
+  /** Free the document in the worker. Further calls reject. */
+  dispose(): Promise<void>;
+}
+
+/**
+ * Promise-based client for a markdown worker. Options are copied to the
+ * worker with `postMessage`, so function options (`highlight`,
+ * `renderMath`, `directiveHandlers`, `resolveWikiLink`, `transformUrl`) are
+ * not supported.
+ */
+export interface MarkdownWorker {
+  parse(
+    source: string,
+    options?: Omit<ParseOptions, "resolveWikiLink" | "transformUrl"> &
+      RequestKeyOptions,
+  ): Promise<ParsedRoot>;
+  toHtml(
+    source: string,
+    options?: Omit<
+      HtmlOptions,
+      | "highlight"
+      | "renderMath"
+      | "directiveHandlers"
+      | "resolveWikiLink"
+      | "transformUrl"
+    > &
+      RequestKeyOptions,
+  ): Promise<string>;
+  toHtmlLiteral(
+    source: string,
+    options?: Omit<LiteralOptions, "resolveWikiLink" | "transformUrl"> &
+      RequestKeyOptions,
+  ): Promise<string>;
+  /** Parse a document in the worker for incremental updates */
+  createDocument(source: string, options?: MarkdownOptions): Promise<WorkerDocument>;
+  /** Stop the worker. Pending and later requests reject. */
+  terminate(): void;
+}
+
+/**
+ * Start a markdown worker.
+ *
+ * @example
+ * const md = createMarkdownWorker();
+ * const html = await md.toHtml(source);
+ *
+ * @example
+ * // Render as you type: older renders still pending are dropped
+ * textarea.addEventListener("input", async () => {
+ *   try {
+ *     preview.innerHTML = await md.toHtml(textarea.value, { key: "preview" });
+ *   } catch (error) {
+ *     if (!(error instanceof StaleRequestError)) throw error;
+ *   }
+ * });
+ */
+export function createMarkdownWorker(options?: MarkdownWorkerOptions): MarkdownWorker;
@@ -0,0 +1,176 @@
+/**
+ * @mizchi/markdown/worker - run the parser in a dedicated Worker
+ *
+ * Keeps parsing and rendering of large documents off the main thread.
+ * Every call returns a promise; a newer call with the same key supersedes
+ * the pending one, which rejects with a `StaleRequestError` and is
+ * skipped by the worker if it has not started yet.
+ */
+
+/** Rejection of a request superseded by a newer one with the same key. */
+export class StaleRequestError extends Error {
+  constructor(method) {
+    super(`${method}: superseded by a newer request`);
+    this.name = "StaleRequestError";
+  }
+}
+
+/**
+ * Split the `key` option off the options sent to the worker.
+ * @param {string} fallback - Key used when `options.key` is undefined
+ */
+function splitKey(options, fallback) {
+  const { key = fallback, ...rest } = options ?? {};
+  return { key, options: rest };
+}
+
+/**
+ * Start a markdown worker.
+ * @param {import('./worker').MarkdownWorkerOptions} [options] - An existing worker to talk to
+ * @returns {import('./worker').MarkdownWorker}
+ */
+export function createMarkdownWorker(options = {}) {
+  const worker =
+    options.worker ??
+    new Worker(new URL("./worker-thread.js", import.meta.url), { type: "module" });
+  /** Pending requests by id */
+  const pending = new Map();
+  /** Pending request id by key */
+  const byKey = new Map();
+  let nextId = 1;
+  let nextDocumentId = 1;
+  let terminated = false;
+
+  function settle(id) {
+    const request = pending.get(id);
+    if (!request) return null;
+    pending.delete(id);
+    if (request.key != null && byKey.get(request.key) === id) byKey.delete(request.key);
+    return request;
+  }
+
+  function request(method, args, key) {
+    if (terminated) {
+      return Promise.reject(new Error(`MarkdownWorker.${method}: the worker has been terminated`));
+    }
+    const id = nextId++;
+    if (key != null) {
+      const previous = byKey.get(key);
+      if (previous !== undefined) settle(previous)?.reject(new StaleRequestError(method));
+      byKey.set(key, id);
+    }
+    return new Promise((resolve, reject) => {
+      pending.set(id, { method, key, resolve, reject });
+      try {
+        worker.postMessage({ id, key, method, args });
+      } catch (error) {
+        // e.g. a function option that can't be cloned
+        settle(id);
+        reject(error);
+      }
+    });
+  }
+
+  function rejectAll(error) {
+    for (const id of [...pending.keys()]) settle(id)?.reject(error);
+  }
+
+  worker.addEventListener("message", (event) => {
+    const { id, result, error, stale } = event.data;
+    const request = settle(id);
+    if (!request) return;
+    if (stale) {
+      request.reject(new StaleRequestError(request.method));
+    } else if (error) {
+      const failure = new Error(error.message);
+      failure.name = error.name;
+      request.reject(failure);
+    } else {
+      request.resolve(result);
+    }
+  });
+
+  worker.addEventListener("error", (event) => {
+    rejectAll(new Error(`MarkdownWorker: ${event.message ?? "the worker failed"}`));
+  });
+
+  function wrapDocument(documentId) {
+    let version = 0;
+    let changes = null;
+    let disposed = false;
+
+    function call(method, args, key) {
+      if (disposed) {
+        return Promise.reject(
+          new Error(`WorkerDocument.${method}: document ${documentId} has been disposed`)
+        );
+      }
+      return request(`document.${method}`, [documentId, ...args], key);
+    }
+
+    return {
+      get version() {
+        return version;
+      },
+
+      get changes() {
+        return changes;
+      },
+
+      async update(newSource, edit) {
+        const next = await call("update", [newSource, edit], null);
+        version = next.version;
+        changes = next.changes;
+        return next;
+      },
+
+      ast(options) {
+        return call("ast", [], splitKey(options, `document:${documentId}:ast`).key);
+      },
+
+      toHtml(options) {
+        return call("toHtml", [], splitKey(options, `document:${documentId}:toHtml`).key);
+      },
+
+      toMarkdown(options) {
+        return call("toMarkdown", [], splitKey(options, `document:${documentId}:toMarkdown`).key);
+      },
+
+      async dispose() {
+        if (disposed) return;
+        disposed = true;
+        await request("document.dispose", [documentId], null);
+      },
+    };
+  }
+
+  return {
+    parse(source, options) {
+      const { key, options: rest } = splitKey(options, "parse");
+      return request("parse", [source, rest], key);
+    },
+
+    toHtml(source, options) {
+      const { key, options: rest } = splitKey(options, "toHtml");
+      return request("toHtml", [source, rest], key);
+    },
+
+    toHtmlLiteral(source, options) {
+      const { key, options: rest } = splitKey(options, "toHtmlLiteral");
+      return request("toHtmlLiteral", [source, rest], key);
+    },
+
+    async createDocument(source, options) {
+      const documentId = nextDocumentId++;
+      await request("createDocument", [documentId, source, options ?? {}], null);
+      return wrapDocument(documentId);
+    },
+
+    terminate() {
+      if (terminated) return;
+      terminated = true;
+      worker.terminate();
+      rejectAll(new Error("MarkdownWorker: the worker has been terminated"));
+    },
+  };
+}
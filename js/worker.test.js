@@ -0,0 +1,72 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { createMarkdownWorker, StaleRequestError } from "./worker.js";
+import { serveMarkdownWorker } from "./worker-thread.js";
+import { insertEdit, parse, toHtml, toHtmlLiteral } from "./api.js";
+
+/** Serve the worker side in-process over a MessageChannel. */
+function connect() {
+  const { port1, port2 } = new MessageChannel();
+  serveMarkdownWorker(port2);
+  const worker = {
+    postMessage: (message) => port1.postMessage(message),
+    addEventListener: (type, listener) => port1.addEventListener(type, listener),
+    terminate: () => port1.close(),
+  };
+  port1.start();
+  port2.start();
+  return createMarkdownWorker({ worker });
+}
+
+describe("createMarkdownWorker", () => {
+  let md;
+
+  afterEach(() => {
+    md?.terminate();
+  });
+
+  it("renders like the synchronous API", async () => {
+    md = connect();
+    const source = "# Title\n\n[[Page]] *text*\n";
+    expect(await md.toHtml(source, { wikilinks: true })).toBe(toHtml(source, { wikilinks: true }));
+    expect(await md.toHtmlLiteral(source, { positions: true })).toBe(
+      toHtmlLiteral(source, { positions: true }),
+    );
+    expect(await md.parse(source)).toEqual(parse(source));
+  });
+
+  it("rejects requests superseded by a newer one with the same key", async () => {
+    md = connect();
+    const first = md.toHtml("one");
+    const other = md.toHtml("other", { key: "other" });
+    const second = md.toHtml("two");
+    await expect(first).rejects.toBeInstanceOf(StaleRequestError);
+    expect(await second).toBe(toHtml("two"));
+    expect(await other).toBe(toHtml("other"));
+
+    const kept = md.parse("a", { key: null });
+    expect(await Promise.all([kept, md.parse("b", { key: null })])).toEqual([parse("a"), parse("b")]);
+  });
+
+  it("keeps incremental documents in the worker", async () => {
+    md = connect();
+    const doc = await md.createDocument("# Title\n\nBody\n");
+    const update = doc.update("# Title\n\nBody text\n", insertEdit(13, 5));
+    expect(await doc.toHtml()).toBe(toHtml("# Title\n\nBody text\n"));
+    expect(await update).toMatchObject({ version: 1 });
+    expect(doc.version).toBe(1);
+    expect(doc.changes.reused).toEqual([{ oldIndex: 0, newIndex: 0 }]);
+    expect((await doc.ast()).children).toEqual(parse("# Title\n\nBody text\n").children);
+
+    await doc.dispose();
+    await expect(doc.toHtml()).rejects.toThrow("has been disposed");
+  });
+
+  it("reports errors and termination", async () => {
+    md = connect();
+    await expect(md.toHtml("x", { highlight: () => "" })).rejects.toThrow();
+    const pending = md.toHtml("# Late");
+    md.terminate();
+    await expect(pending).rejects.toThrow("terminated");
+    await expect(md.toHtml("x")).rejects.toThrow("terminated");
+  });
+});
@@ -269,12 +269,24 @@ export function renderBlock(
       );
     }
 
-    case "blockquote":
+    case "blockquote": {
+      const children = block.children.map((child, i) => renderBlock(child, i, callbacks, options)).filter(Boolean);
+      // GitHub alert (parsed with `alerts: true`)
+      const alert = (block.data as { alert?: string } | undefined)?.alert;
+      if (alert) {
+        return (
+          <div key={key} class={`markdown-alert markdown-alert-${alert}`} data-span={getSpan(block)}>
+            <p class="markdown-alert-title">{alert.charAt(0).toUpperCase() + alert.slice(1)}</p>
+            {children}
+          </div>
+        );
+      }
       return (
         <blockquote key={key} data-span={getSpan(block)}>
-          {block.children.map((child, i) => renderBlock(child, i, callbacks, options)).filter(Boolean)}
+          {children}
         </blockquote>
       );
+    }
 
     case "list": {
       const hasTaskItems = block.children.some((item) => item.checked != null);
@@ -77,7 +77,7 @@ const literalEditor = createLiteralMarkdownEditor({
   initialSource: SAMPLE,
   mode: "preview",
   imagePreview: imagePreviewToggle.checked,
-  renderLiteral: (src, options) => toHtmlLiteral(src, options),
+  renderLiteral: (src, options) => toHtmlLiteral(src, { ...options, alerts: true }),
   onPatchStats(stats) {
     if (!patchStatsEl) return;
     patchStatsEl.textContent =
@@ -424,7 +424,7 @@ function App() {
         // ignore IndexedDB load errors and fall back to initial content
       }
 
-      const parsedAst = parse(content);
+      const parsedAst = parse(content, { alerts: true });
       batch(() => {
         setSource(content);
         setAst(parsedAst);
@@ -507,7 +507,7 @@ function App() {
     // Update source and AST synchronously (bypass debounce for immediate feedback)
     hasModified = true;
     setSource(newSource);
-    setAst(parse(newSource));
+    setAst(parse(newSource, { alerts: true }));
 
     // Sync editor text with targeted update using span
     if (editorMode() === "highlight" && editorRef) {
@@ -624,7 +624,7 @@ function App() {
     // Debounce AST parsing - preview doesn't need to update on every keystroke
     clearTimeout(astParseTimer);
     astParseTimer = window.setTimeout(() => {
-      setAst(parse(newSource));
+      setAst(parse(newSource, { alerts: true }));
     }, AST_PARSE_DELAY);
   };
 